@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { spawn, spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI_PATH = fileURLToPath(new URL("./cli.ts", import.meta.url));
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Polls until `done` holds
+async function waitFor(done: () => boolean, what: string, timeoutMs = 30000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!done()) {
+    if (Date.now() > deadline) {
+      throw new Error(`timed out waiting for ${what}`);
+    }
+    await sleep(50);
+  }
+}
+
+describe("--watch", () => {
+  it("regenerates once per burst of changes and leaves an unchanged lock alone", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "motly-watch-"));
+    const schemaPath = path.join(dir, "doc.motly");
+    const lockPath = `${schemaPath}.lock.json`;
+    fs.writeFileSync(schemaPath, "Required: { id = string }\n");
+
+    const child = spawn(process.execPath, ["--import", "tsx", CLI_PATH, "--lock", schemaPath, "Doc", "--watch"], {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const exited = new Promise((resolve) => child.on("exit", resolve));
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    const reruns = () => stderr.split("Change detected").length - 1;
+
+    try {
+      await waitFor(() => stderr.includes("Watching"), "the first run");
+      assert.match(stdout, /message Doc \{\n {2}string id = 1;\n\}/);
+
+      // Saves closer together than the debounce run once, with the last content
+      for (const field of ["a", "b", "c"]) {
+        fs.writeFileSync(schemaPath, `Required: { id = string ${field} = string }\n`);
+      }
+      await waitFor(() => stdout.includes("string c = 2;"), "the rerun");
+      await sleep(500);
+      assert.strictEqual(reruns(), 1);
+      assert.doesNotMatch(stdout, /string [ab] = 2;/);
+
+      // A change that keeps every number doesn't rewrite the lock
+      const lockFile = fs.statSync(lockPath);
+      fs.writeFileSync(schemaPath, "# fields\nRequired: { id = string c = string }\n");
+      await waitFor(() => reruns() === 2, "the second rerun");
+      await sleep(500);
+      assert.strictEqual(fs.statSync(lockPath).ino, lockFile.ino);
+      assert.strictEqual(fs.statSync(lockPath).mtimeMs, lockFile.mtimeMs);
+    } finally {
+      child.kill();
+      await exited;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("check-compat", () => {
+  it("numbers versions without a lock file in order", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "motly-compat-"));
+    const schema = (name: string, content: string) => {
+      fs.writeFileSync(path.join(dir, name), content);
+      return path.join(dir, name);
+    };
+    const checkCompat = (...args: string[]) =>
+      spawnSync(process.execPath, ["--import", "tsx", CLI_PATH, "check-compat", ...args, "Doc"], {
+        encoding: "utf-8",
+        timeout: 60000,
+      });
+
+    try {
+      const oldPath = schema("old.motly", "Required: { id = string }\n");
+      const added = checkCompat(oldPath, schema("added.motly", "Required: { id = string name = string }\n"));
+      assert.strictEqual(added.status, 0, added.stderr);
+      assert.match(added.stderr, /No breaking changes/);
+
+      const inserted = checkCompat(oldPath, schema("inserted.motly", "Required: { name = string id = string }\n"));
+      assert.strictEqual(inserted.status, 1, inserted.stderr);
+      assert.match(inserted.stdout, /BREAKING \[json\] Doc\.id: field 1 was renamed to name/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,43 +1,530 @@
 #!/usr/bin/env node
 
 import * as fs from "fs";
-import { motlySchemaToProto } from "./motly-to-proto.js";
+import * as path from "path";
+import { checkCompatibility, formatCompatIssue, protoToSchema } from "./compat.js";
+import { schemaToDescriptorSet } from "./descriptor.js";
+import { FILE_OPTION_NAMES, parseFileOption, type FileOptions } from "./file-options.js";
+import { convertMotlySchemaBatch, convertMotlySchemaFiles } from "./imports.js";
+import { decodeMotlyData, encodeMotlyData, validateMotlyData } from "./motly-data.js";
+import { deriveMessageName, derivePackageName } from "./naming.js";
+import { protoToMotly } from "./proto-to-motly.js";
+import {
+  convertMotlySchema,
+  formatDiagnostic,
+  parseLockFile,
+  SchemaError,
+  serializeLockFile,
+  type ProtoSchema,
+} from "./motly-to-proto.js";
 
 function main() {
   const args = process.argv.slice(2);
   const { positional, options } = parseArgs(args);
 
+  if (positional[0] === "check-compat" && !options.help) {
+    checkCompat(positional.slice(1), options);
+    return;
+  }
+  if (positional[0] === "proto-to-motly" && !options.help) {
+    fromProto(positional.slice(1), options);
+    return;
+  }
+  const command = positional[0];
+  if ((command === "encode" || command === "decode" || command === "validate") && !options.help) {
+    runDataCommand(command, positional.slice(1), options);
+    return;
+  }
+
   if (positional.length < 1 || options.help) {
     console.error("Usage: motly-to-proto <schema.motly> [MessageName] [options]");
+    console.error("       motly-to-proto --out-dir <dir> <schema.motly|dir>... [options]");
+    console.error("       motly-to-proto check-compat <old> <new> [MessageName] [options]");
+    console.error("       motly-to-proto encode <schema.motly> <data.motly> [MessageName] [options]");
+    console.error("       motly-to-proto decode <schema.motly> <data.bin> [MessageName] [options]");
+    console.error("       motly-to-proto validate <schema.motly> <data.motly> [MessageName] [options]");
+    console.error("       motly-to-proto proto-to-motly <schema.proto> [MessageName] [options]");
+    console.error("");
+    console.error("Converts a MOTLY schema file to Protocol Buffers format. Files named by");
+    console.error("its import directive are converted too, one .proto each; only the");
+    console.error("schema's own .proto is printed.");
+    console.error("");
+    console.error("With --out-dir, every schema file given, or found under a directory given,");
+    console.error("is converted into the output directory, mirroring the layout under the");
+    console.error("include directory (default: the inputs' common directory). Each file gets");
+    console.error("all of its Types, a message named after it if it declares fields, and a");
+    console.error("package from its directory if it has no package directive. Only changed");
+    console.error("files are rewritten; the exit code is non-zero if any file failed.");
+    console.error("");
+    console.error("check-compat compares two versions of a schema (.motly or a generated");
+    console.error(".proto) and exits non-zero if the new one breaks existing data. Each");
+    console.error(".motly version is numbered from its lock, if it has one: <file>.lock.json");
+    console.error("unless set with --old-lock and --lock.");
+    console.error("");
+    console.error("encode writes a MOTLY data file as protobuf bytes of the schema's root");
+    console.error("message; decode turns the bytes back into MOTLY. validate checks a data");
+    console.error("file against the schema and exits non-zero if it doesn't conform.");
     console.error("");
-    console.error("Converts a MOTLY schema file to Protocol Buffers format.");
+    console.error("proto-to-motly converts an existing .proto to a MOTLY schema; with --lock");
+    console.error("it also writes the field numbers to convert it back with");
+    console.error("(default: <schema>.motly.lock.json).");
     console.error("");
     console.error("Options:");
-    console.error("  --package <name>  Set the proto package name");
+    console.error("  --package <name>  Set the proto package name (with --out-dir, the package");
+    console.error("                    of files without a package directive)");
+    console.error("  --go-package, --java-package, --java-multiple-files, --java-outer-classname,");
+    console.error("  --csharp-namespace, --objc-class-prefix, --php-namespace, --ruby-package,");
+    console.error("  --swift-prefix, --optimize-for <value>");
+    console.error("                    Set a file option, overriding its directive (not");
+    console.error("                    with --out-dir)");
+    console.error("  --derive-file-options");
+    console.error("                    Derive unset file options from the package name");
+    console.error("  --lock [file.json]");
+    console.error("                    Read and update a field number lock file");
+    console.error("                    (default: <schema.motly>.lock.json)");
+    console.error("  --old-lock <file> Lock file of the old version, for check-compat");
+    console.error("  --include <dir>   Directory import paths are relative to");
+    console.error("                    (default: the schema's directory)");
+    console.error("  --out-dir <dir>   Convert many schemas into a directory");
+    console.error("  --descriptor-set <file>");
+    console.error("                    Also write a binary FileDescriptorSet; \"-\" writes");
+    console.error("                    it to stdout instead of the .proto text");
+    console.error("  --out <file>      Write encoded bytes to a file instead of stdout");
+    console.error("  --watch           Regenerate whenever a schema file changes");
+    console.error("  --validate        Add protovalidate (buf.validate) constraints");
+    console.error("  --wrap-optional-lists");
+    console.error("                    Wrap Optional lists in messages to keep their presence");
+    console.error("  --wrap-optional-scalars");
+    console.error("                    Use google.protobuf wrappers instead of optional scalars");
+    console.error("  --no-strict       Map unknown types to string instead of failing");
+    console.error("  --rename-collisions");
+    console.error("                    Number names that collide instead of failing");
     console.error("  --help            Show this help message");
     process.exit(options.help ? 0 : 1);
   }
 
+  if (typeof options["out-dir"] === "string") {
+    convertTree(positional, options["out-dir"], options);
+    return;
+  }
+
   const schemaPath = positional[0];
   const messageName = positional[1] || deriveMessageName(schemaPath);
+  const fileOptions = fileOptionsOf(options);
 
   if (!fs.existsSync(schemaPath)) {
     console.error(`Error: File not found: ${schemaPath}`);
     process.exit(1);
   }
 
+  const includeDir = typeof options.include === "string" ? options.include : path.dirname(schemaPath);
+  const entryPath = path.relative(includeDir, schemaPath).split(path.sep).join("/");
+  if (entryPath.startsWith("../") || path.isAbsolute(entryPath)) {
+    console.error(`Error: ${schemaPath} is not inside the include directory ${includeDir}`);
+    process.exit(1);
+  }
+  // Import paths are relative to the include directory; diagnostics show
+  // them as paths from the working directory
+  const filePath = (importPath: string) => path.join(includeDir, importPath);
+  const lockPathOf = (importPath: string) =>
+    importPath === entryPath && typeof options.lock === "string"
+      ? options.lock
+      : options.lock
+        ? `${filePath(importPath)}.lock.json`
+        : undefined;
+
+  const run = (): boolean => {
+    try {
+      const files = convertMotlySchemaFiles(entryPath, messageName, (p) => fs.readFileSync(filePath(p), "utf-8"), {
+        packageName: typeof options.package === "string" ? options.package : undefined,
+        fileOptions,
+        deriveFileOptions: options["derive-file-options"] ? true : undefined,
+        validate: options.validate ? true : undefined,
+        locks: (p) => {
+          const lockPath = lockPathOf(p);
+          return lockPath && fs.existsSync(lockPath) ? parseLockFile(fs.readFileSync(lockPath, "utf-8")) : undefined;
+        },
+        strict: !options["no-strict"],
+        wrapOptionalLists: options["wrap-optional-lists"] ? true : undefined,
+        wrapOptionalScalars: options["wrap-optional-scalars"] ? true : undefined,
+        nameCollisions: options["rename-collisions"] ? "rename" : "error",
+      });
+      for (const file of files) {
+        for (const diagnostic of file.result.diagnostics) {
+          console.error(formatDiagnostic({ ...diagnostic, file: filePath(file.path) }));
+        }
+        const lockPath = lockPathOf(file.path);
+        if (lockPath) {
+          writeIfChanged(lockPath, serializeLockFile(file.result.lock));
+        }
+      }
+      const { result } = files[files.length - 1];
+      const descriptorPath = options["descriptor-set"];
+      if (typeof descriptorPath === "string") {
+        if (files.length > 1) {
+          throw new Error("--descriptor-set doesn't support schemas with imports");
+        }
+        const descriptorSet = schemaToDescriptorSet(result.schema, deriveProtoFileName(schemaPath));
+        if (descriptorPath === "-") {
+          process.stdout.write(descriptorSet);
+          return true;
+        }
+        fs.writeFileSync(descriptorPath, descriptorSet);
+      }
+      console.log(result.proto);
+      return true;
+    } catch (err) {
+      printError(err, filePath);
+      return false;
+    }
+  };
+
+  if (options.watch) {
+    watchSchemas(includeDir, run);
+  } else if (!run()) {
+    process.exit(1);
+  }
+}
+
+function convertTree(inputs: string[], outDir: string, options: Record<string, string | boolean>) {
+  if (typeof options.lock === "string" || options["descriptor-set"] !== undefined) {
+    console.error("Error: --out-dir writes a lock file next to each schema and no descriptor set");
+    process.exit(1);
+  }
+  if (Object.keys(fileOptionsOf(options)).length > 0) {
+    console.error("Error: file options differ between schemas; with --out-dir, set them with directives");
+    process.exit(1);
+  }
+  for (const input of inputs) {
+    if (!fs.existsSync(input)) {
+      console.error(`Error: File not found: ${input}`);
+      process.exit(1);
+    }
+  }
+
+  const includeDir = typeof options.include === "string" ? options.include : commonDirectory(inputs);
+  const filePath = (importPath: string) => path.join(includeDir, importPath);
+  for (const input of inputs) {
+    const relativePath = path.relative(includeDir, input);
+    if (relativePath === ".." || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+      console.error(`Error: ${input} is not inside the include directory ${includeDir}`);
+      process.exit(1);
+    }
+  }
+  const lockPath = (importPath: string) => `${filePath(importPath)}.lock.json`;
+
+  // Directories are searched on every run, so new schema files are picked up
+  const run = (): boolean => {
+    const schemaPaths = inputs.flatMap((input) =>
+      fs.existsSync(input) && fs.statSync(input).isDirectory() ? findSchemas(input) : [input]
+    );
+    const entryPaths = schemaPaths.map((schemaPath) => path.relative(includeDir, schemaPath).split(path.sep).join("/"));
+    const batch = convertMotlySchemaBatch([...new Set(entryPaths)], (p) => fs.readFileSync(filePath(p), "utf-8"), {
+      defaultPackageName: (p) => (typeof options.package === "string" ? options.package : derivePackageName(p)),
+      deriveFileOptions: options["derive-file-options"] ? true : undefined,
+      validate: options.validate ? true : undefined,
+      locks: (p) =>
+        options.lock && fs.existsSync(lockPath(p)) ? parseLockFile(fs.readFileSync(lockPath(p), "utf-8")) : undefined,
+      strict: !options["no-strict"],
+      wrapOptionalLists: options["wrap-optional-lists"] ? true : undefined,
+      wrapOptionalScalars: options["wrap-optional-scalars"] ? true : undefined,
+      nameCollisions: options["rename-collisions"] ? "rename" : "error",
+    });
+
+    const counts = { created: 0, updated: 0, unchanged: 0 };
+    for (const file of batch.files) {
+      for (const diagnostic of file.result.diagnostics) {
+        console.error(formatDiagnostic({ ...diagnostic, file: filePath(file.path) }));
+      }
+      if (options.lock) {
+        writeIfChanged(lockPath(file.path), serializeLockFile(file.result.lock));
+      }
+      const outPath = path.join(outDir, file.protoPath);
+      const status = writeIfChanged(outPath, file.result.proto);
+      if (status !== "unchanged") {
+        console.error(`${status} ${outPath}`);
+      }
+      counts[status]++;
+    }
+    // Files that import a failed file fail with the same error; print it once
+    for (const error of new Set(batch.failures.map((failure) => failure.error))) {
+      printError(error, filePath);
+    }
+
+    console.error(
+      `${counts.created} created, ${counts.updated} updated, ${counts.unchanged} unchanged, ` +
+        `${batch.failures.length} failed`
+    );
+    return batch.failures.length === 0;
+  };
+
+  if (options.watch) {
+    watchSchemas(includeDir, run);
+  } else if (!run()) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Runs a conversion now and again whenever a schema file under `dir`
+ * changes, until interrupted; errors are printed and watching goes on. The
+ * directory is watched rather than each file because editors often save by
+ * replacing the file, and so that new imports are seen. Rapid saves are
+ * debounced into one run.
+ */
+function watchSchemas(dir: string, run: () => boolean): void {
+  run();
+  console.error(`Watching ${dir} for changes...`);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  fs.watch(dir, { recursive: true }, (_event, fileName) => {
+    // Lock files and generated .proto files may be written under `dir` too
+    if (fileName && !/\.(motly|mtly)$/.test(fileName)) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      console.error("Change detected, regenerating...");
+      run();
+    }, WATCH_DEBOUNCE_MS);
+  });
+}
+
+// Schema files under a directory, in a stable order
+function findSchemas(dir: string): string[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return findSchemas(entryPath);
+      }
+      return /\.(motly|mtly)$/.test(entry.name) ? [entryPath] : [];
+    });
+}
+
+// Deepest directory containing every input; directories contain themselves
+function commonDirectory(inputs: string[]): string {
+  const directories = inputs.map((input) =>
+    path.resolve(fs.statSync(input).isDirectory() ? input : path.dirname(input)).split(path.sep)
+  );
+  const [first, ...rest] = directories;
+  let length = first.length;
+  for (const dir of rest) {
+    let shared = 0;
+    while (shared < length && dir[shared] === first[shared]) {
+      shared++;
+    }
+    length = shared;
+  }
+  return path.relative(process.cwd(), first.slice(0, length).join(path.sep) || path.sep) || ".";
+}
+
+/**
+ * Writes a file unless it already has this content. The content goes to a
+ * temporary file that is then renamed over the target, so a build never
+ * reads a half-written file.
+ */
+function writeIfChanged(filePath: string, content: string): "created" | "updated" | "unchanged" {
+  const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : undefined;
+  if (existing === content) {
+    return "unchanged";
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, content);
+  fs.renameSync(tempPath, filePath);
+  return existing === undefined ? "created" : "updated";
+}
+
+function checkCompat(positional: string[], options: Record<string, string | boolean>) {
+  if (positional.length < 2) {
+    console.error("Usage: motly-to-proto check-compat <old> <new> [MessageName] [options]");
+    process.exit(1);
+  }
+
+  const [oldPath, newPath] = positional;
+  const motlyPath = [newPath, oldPath].find((p) => !p.endsWith(".proto")) ?? newPath;
+  const messageName = positional[2] || deriveMessageName(motlyPath);
+
+  for (const path of [oldPath, newPath]) {
+    if (!fs.existsSync(path)) {
+      console.error(`Error: File not found: ${path}`);
+      process.exit(1);
+    }
+  }
+
+  // Each .motly version is numbered from its own lock, as it was generated;
+  // without one it is numbered in order, as the converter does
+  const lockOf = (schemaPath: string, option: string) => {
+    const lockPath = typeof options[option] === "string" ? options[option] : `${schemaPath}.lock.json`;
+    if (fs.existsSync(lockPath)) {
+      return parseLockFile(fs.readFileSync(lockPath, "utf-8"));
+    }
+    if (typeof options[option] === "string") {
+      throw new Error(`Lock file not found: ${lockPath} (set it with --${option})`);
+    }
+    return undefined;
+  };
+
+  try {
+    const load = (path: string, lockOption: string): ProtoSchema => {
+      const content = fs.readFileSync(path, "utf-8");
+      return path.endsWith(".proto")
+        ? protoToSchema(content)
+        : convertMotlySchema(content, messageName, {
+            lock: lockOf(path, lockOption),
+            strict: !options["no-strict"],
+            wrapOptionalLists: options["wrap-optional-lists"] ? true : undefined,
+            wrapOptionalScalars: options["wrap-optional-scalars"] ? true : undefined,
+            nameCollisions: options["rename-collisions"] ? "rename" : "error",
+            fileName: path,
+          }).schema;
+    };
+
+    const issues = checkCompatibility(load(oldPath, "old-lock"), load(newPath, "lock"));
+    for (const issue of issues) {
+      console.log(formatCompatIssue(issue));
+    }
+    if (issues.length > 0) {
+      console.error(`${issues.length} breaking change${issues.length === 1 ? "" : "s"} found`);
+      process.exit(1);
+    }
+    console.error("No breaking changes");
+  } catch (err) {
+    printError(err);
+    process.exit(1);
+  }
+}
+
+function runDataCommand(
+  command: "encode" | "decode" | "validate",
+  positional: string[],
+  options: Record<string, string | boolean>
+) {
+  if (positional.length < 2) {
+    console.error(`Usage: motly-to-proto ${command} <schema.motly> <data> [MessageName] [options]`);
+    process.exit(1);
+  }
+
+  const [schemaPath, dataPath] = positional;
+  const messageName = positional[2] || deriveMessageName(schemaPath);
+  const lockPath =
+    typeof options.lock === "string" ? options.lock : options.lock ? `${schemaPath}.lock.json` : undefined;
+
+  for (const path of [schemaPath, dataPath]) {
+    if (!fs.existsSync(path)) {
+      console.error(`Error: File not found: ${path}`);
+      process.exit(1);
+    }
+  }
+
   try {
     const schemaContent = fs.readFileSync(schemaPath, "utf-8");
-    const protoOutput = motlySchemaToProto(schemaContent, messageName, {
-      packageName: typeof options.package === "string" ? options.package : undefined,
+    // The lock is only read: encoding must use the numbers already in use
+    const conversionOptions = {
+      lock: lockPath && fs.existsSync(lockPath) ? parseLockFile(fs.readFileSync(lockPath, "utf-8")) : undefined,
+      strict: !options["no-strict"],
+      wrapOptionalLists: options["wrap-optional-lists"] ? true : undefined,
+      wrapOptionalScalars: options["wrap-optional-scalars"] ? true : undefined,
+      nameCollisions: options["rename-collisions"] ? ("rename" as const) : ("error" as const),
+      fileName: schemaPath,
+    };
+
+    if (command === "validate") {
+      const diagnostics = validateMotlyData(schemaContent, messageName, fs.readFileSync(dataPath, "utf-8"), {
+        ...conversionOptions,
+        dataFileName: dataPath,
+      });
+      for (const diagnostic of diagnostics) {
+        console.error(formatDiagnostic(diagnostic));
+      }
+      if (diagnostics.length > 0) {
+        process.exit(1);
+      }
+      console.error(`${dataPath} is valid`);
+      return;
+    }
+    if (command === "decode") {
+      process.stdout.write(decodeMotlyData(schemaContent, messageName, fs.readFileSync(dataPath), conversionOptions));
+      return;
+    }
+    const bytes = encodeMotlyData(schemaContent, messageName, fs.readFileSync(dataPath, "utf-8"), {
+      ...conversionOptions,
+      dataFileName: dataPath,
     });
-    console.log(protoOutput);
+    if (typeof options.out === "string") {
+      fs.writeFileSync(options.out, bytes);
+    } else {
+      process.stdout.write(bytes);
+    }
   } catch (err) {
-    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    printError(err);
     process.exit(1);
   }
 }
 
+function fromProto(positional: string[], options: Record<string, string | boolean>) {
+  if (positional.length < 1) {
+    console.error("Usage: motly-to-proto proto-to-motly <schema.proto> [MessageName] [options]");
+    process.exit(1);
+  }
+
+  const protoPath = positional[0];
+  const lockPath =
+    typeof options.lock === "string"
+      ? options.lock
+      : options.lock
+        ? `${protoPath.replace(/\.proto$/, "")}.motly.lock.json`
+        : undefined;
+
+  if (!fs.existsSync(protoPath)) {
+    console.error(`Error: File not found: ${protoPath}`);
+    process.exit(1);
+  }
+
+  try {
+    const result = protoToMotly(fs.readFileSync(protoPath, "utf-8"), positional[1]);
+    for (const warning of result.warnings) {
+      console.error(`${protoPath}: warning: ${warning}`);
+    }
+    if (lockPath) {
+      fs.writeFileSync(lockPath, serializeLockFile(result.lock));
+    }
+    console.log(result.motly);
+  } catch (err) {
+    printError(err);
+    process.exit(1);
+  }
+}
+
+function printError(err: unknown, displayPath: (file: string) => string = (file) => file): void {
+  if (err instanceof SchemaError) {
+    for (const diagnostic of err.diagnostics) {
+      const file = diagnostic.file === undefined ? undefined : displayPath(diagnostic.file);
+      console.error(formatDiagnostic({ ...diagnostic, file }));
+    }
+  } else {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+// Options that never take a value, so a following argument stays positional
+const FLAG_OPTIONS = new Set([
+  "help",
+  "no-strict",
+  "rename-collisions",
+  "watch",
+  "derive-file-options",
+  "validate",
+  "wrap-optional-lists",
+  "wrap-optional-scalars",
+]);
+
+// Quiet time after a change before regenerating, so one save that fires
+// several events (or saving many files at once) runs once
+const WATCH_DEBOUNCE_MS = 100;
+
 interface ParsedArgs {
   positional: string[];
   options: Record<string, string | boolean>;
@@ -52,7 +539,9 @@ function parseArgs(args: string[]): ParsedArgs {
     if (arg.startsWith("--")) {
       const key = arg.slice(2);
       const next = args[i + 1];
-      if (next && !next.startsWith("--")) {
+      // A bare --lock uses the default file, so it only takes a .json value
+      const takesValue = !FLAG_OPTIONS.has(key) && (key !== "lock" || next?.endsWith(".json"));
+      if (next && !next.startsWith("--") && takesValue) {
         options[key] = next;
         i++;
       } else {
@@ -66,12 +555,29 @@ function parseArgs(args: string[]): ParsedArgs {
   return { positional, options };
 }
 
-function deriveMessageName(filePath: string): string {
-  const baseName = filePath.split("/").pop() || "Schema";
-  const withoutExt = baseName.replace(/\.(motly|mtly)$/, "");
-  return withoutExt
-    .replace(/(^|[-_])(\w)/g, (_, __, c) => c.toUpperCase())
-    .replace(/[^a-zA-Z0-9]/g, "");
+// File options given as flags, e.g. --go-package for go_package; a bare
+// --java-multiple-files means true
+function fileOptionsOf(options: Record<string, string | boolean>): FileOptions {
+  const fileOptions: FileOptions = {};
+  for (const name of FILE_OPTION_NAMES) {
+    const value = options[name.replace(/_/g, "-")];
+    if (value === undefined) {
+      continue;
+    }
+    const parsed = parseFileOption(name, value);
+    if ("error" in parsed) {
+      console.error(`Error: ${parsed.error}`);
+      process.exit(1);
+    }
+    Object.assign(fileOptions, { [name]: parsed.value });
+  }
+  return fileOptions;
+}
+
+// Name the .proto would be saved under, recorded in descriptor sets
+function deriveProtoFileName(filePath: string): string {
+  const baseName = filePath.split("/").pop() || "schema";
+  return `${baseName.replace(/\.(motly|mtly)$/, "")}.proto`;
 }
 
 main();
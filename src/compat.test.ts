@@ -0,0 +1,210 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { checkCompatibility, protoToSchema } from "./compat.js";
+import { convertMotlySchema } from "./motly-to-proto.js";
+
+function compare(oldMotly: string, newMotly: string, useLock = true) {
+  const previous = convertMotlySchema(oldMotly, "Test");
+  const next = convertMotlySchema(newMotly, "Test", useLock ? { lock: previous.lock } : {});
+  return checkCompatibility(previous.schema, next.schema);
+}
+
+describe("checkCompatibility", () => {
+  it("reports nothing for compatible additions", () => {
+    const issues = compare(
+      `
+        Required: {
+          id = string
+        }
+      `,
+      `
+        Required: {
+          id = string
+          name = string
+        }
+      `
+    );
+
+    assert.deepStrictEqual(issues, []);
+  });
+
+  it("reports renumbering when no lock is used", () => {
+    const issues = compare(
+      `
+        Required: {
+          id = string
+          name = string
+        }
+      `,
+      `
+        Required: {
+          email = string
+          id = string
+          name = string
+        }
+      `,
+      false
+    );
+
+    assert(issues.some((i) => i.kind === "field-number-reused" && i.location === "Test.id"));
+  });
+
+  it("reports incompatible scalar type changes", () => {
+    const issues = compare(
+      `
+        Types: { int32 = number }
+        Required: { count = int32 }
+      `,
+      `
+        Required: { count = string }
+      `
+    );
+
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].kind, "field-type-changed");
+    assert.deepStrictEqual(issues[0].breaks, ["wire", "json"]);
+  });
+
+  it("treats wire-compatible type changes as JSON breaks only", () => {
+    const issues = compare(
+      `
+        Types: { int32 = number }
+        Required: { count = int32 }
+      `,
+      `
+        Types: { int64 = number }
+        Required: { count = int64 }
+      `
+    );
+
+    assert.strictEqual(issues.length, 1);
+    assert.deepStrictEqual(issues[0].breaks, ["json"]);
+  });
+
+  it("reports optional to repeated flips", () => {
+    const issues = compare(
+      `
+        Optional: { tag = string }
+      `,
+      `
+        Optional: { tag = "string[]" }
+      `
+    );
+
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].kind, "field-label-changed");
+    assert.match(issues[0].message, /from optional to repeated/);
+  });
+
+  it("reports map key type changes", () => {
+    const issues = compare(
+      `
+        Types: { int32 = number }
+        Required: { byId = "map<int32, string>" }
+      `,
+      `
+        Required: { byId = "map<string, string>" }
+      `
+    );
+
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].message, "field 1 changed type from map<int32, string> to map<string, string>");
+    assert.deepStrictEqual(issues[0].breaks, ["wire", "json"]);
+  });
+
+  it("reports removed enum values", () => {
+    const oldSchema = protoToSchema(`
+      syntax = "proto3";
+      enum Status { STATUS_UNSPECIFIED = 0; STATUS_PENDING = 1; STATUS_ACTIVE = 2; }
+      message Test { Status status = 1; }
+    `);
+    const newSchema = protoToSchema(`
+      syntax = "proto3";
+      enum Status { STATUS_UNSPECIFIED = 0; STATUS_PENDING = 1; }
+      message Test { Status status = 1; }
+    `);
+    const issues = checkCompatibility(oldSchema, newSchema);
+
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].kind, "enum-value-removed");
+    assert.strictEqual(issues[0].location, "Status.STATUS_ACTIVE");
+    assert.deepStrictEqual(issues[0].breaks, ["wire", "json"]);
+  });
+
+  it("doesn't count removals the lock reserves", () => {
+    const issues = compare(
+      `
+        Types: { Status = [pending, active] }
+        Required: { status = Status note = string }
+      `,
+      `
+        Types: { Status = [pending] }
+        Required: { status = Status }
+      `
+    );
+
+    assert.deepStrictEqual(issues, []);
+  });
+
+  it("reports renamed fields", () => {
+    const oldSchema = protoToSchema(`
+      syntax = "proto3";
+      message Test { string user_name = 1; }
+    `);
+    const newSchema = protoToSchema(`
+      syntax = "proto3";
+      message Test { string username = 1; }
+    `);
+    const issues = checkCompatibility(oldSchema, newSchema);
+
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].kind, "field-renamed");
+    assert.deepStrictEqual(issues[0].breaks, ["json"]);
+  });
+
+  it("reports reuse of reserved numbers", () => {
+    const oldSchema = protoToSchema(`
+      syntax = "proto3";
+      message Test { string id = 1; reserved 2 to 4; }
+    `);
+    const newSchema = protoToSchema(`
+      syntax = "proto3";
+      message Test { string id = 1; int32 count = 3; }
+    `);
+    const issues = checkCompatibility(oldSchema, newSchema);
+
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].kind, "field-number-reused");
+  });
+
+  it("compares a generated .proto against a new MOTLY schema", () => {
+    const previous = convertMotlySchema(
+      `
+        #! package = "app.v1"
+        Types: { Status = [pending, active] }
+        Required: {
+          id = string
+          status = Status
+          createdAt = date
+        }
+      `.trim(),
+      "Test"
+    );
+    const next = convertMotlySchema(
+      `
+        #! package = "app.v1"
+        Types: { Status = [pending, active] }
+        Required: {
+          id = string
+          status = Status
+          createdAt = date
+          note = string
+        }
+      `.trim(),
+      "Test",
+      { lock: previous.lock }
+    );
+
+    assert.deepStrictEqual(checkCompatibility(protoToSchema(previous.proto), next.schema), []);
+  });
+});
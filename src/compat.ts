@@ -0,0 +1,344 @@
+import protobuf from "protobufjs";
+import type {
+  ProtoEnum,
+  ProtoField,
+  ProtoMessage,
+  ProtoReserved,
+  ProtoSchema,
+} from "./motly-to-proto.js";
+
+/** Which kind of consumer a change breaks */
+export type CompatBreak = "wire" | "json";
+
+export type CompatIssueKind =
+  | "message-removed"
+  | "enum-removed"
+  | "field-removed"
+  | "field-number-reused"
+  | "field-renamed"
+  | "field-type-changed"
+  | "field-label-changed"
+  | "enum-value-removed"
+  | "enum-value-number-reused"
+  | "enum-value-renamed";
+
+export interface CompatIssue {
+  kind: CompatIssueKind;
+  /** Message or enum, plus field or value name: `User.email` */
+  location: string;
+  message: string;
+  breaks: CompatBreak[];
+}
+
+// Scalar types that share a wire encoding and can be changed into each other
+// without breaking existing binary data. Enums are encoded as int32 varints.
+const WIRE_GROUPS: string[][] = [
+  ["int32", "int64", "uint32", "uint64", "bool", "enum"],
+  ["sint32", "sint64"],
+  ["fixed32", "sfixed32"],
+  ["fixed64", "sfixed64"],
+  ["string", "bytes"],
+];
+
+// Scalar types with identical proto3 JSON representations
+const JSON_GROUPS: string[][] = [
+  ["int32", "uint32", "sint32", "fixed32", "sfixed32", "float", "double"],
+  ["int64", "uint64", "sint64", "fixed64", "sfixed64"],
+];
+
+/**
+ * Compares two versions of a schema structurally and reports every change
+ * that breaks binary or JSON compatibility for existing data.
+ */
+export function checkCompatibility(oldSchema: ProtoSchema, newSchema: ProtoSchema): CompatIssue[] {
+  const issues: CompatIssue[] = [];
+
+  for (const oldMessage of oldSchema.messages) {
+    const newMessage = newSchema.messages.find((m) => m.name === oldMessage.name);
+    if (!newMessage) {
+      issues.push({
+        kind: "message-removed",
+        location: oldMessage.name,
+        message: `message ${oldMessage.name} was removed`,
+        breaks: ["wire", "json"],
+      });
+      continue;
+    }
+    compareMessages(oldMessage, newMessage, oldSchema, newSchema, issues);
+  }
+
+  for (const oldEnum of oldSchema.enums) {
+    const newEnum = newSchema.enums.find((e) => e.name === oldEnum.name);
+    if (!newEnum) {
+      issues.push({
+        kind: "enum-removed",
+        location: oldEnum.name,
+        message: `enum ${oldEnum.name} was removed`,
+        breaks: ["wire", "json"],
+      });
+      continue;
+    }
+    compareEnums(oldEnum, newEnum, issues);
+  }
+
+  return issues;
+}
+
+function compareMessages(
+  oldMessage: ProtoMessage,
+  newMessage: ProtoMessage,
+  oldSchema: ProtoSchema,
+  newSchema: ProtoSchema,
+  issues: CompatIssue[]
+): void {
+  for (const oldField of oldMessage.fields) {
+    const location = `${oldMessage.name}.${oldField.name}`;
+    const newField = newMessage.fields.find((f) => f.fieldNumber === oldField.fieldNumber);
+
+    if (!newField) {
+      // A removed field whose number is reserved breaks nothing
+      const moved = newMessage.fields.find((f) => f.name === oldField.name);
+      if (moved || !isReservedNumber(newMessage.reserved, oldField.fieldNumber)) {
+        issues.push({
+          kind: "field-removed",
+          location,
+          message: moved
+            ? `field ${oldField.fieldNumber} moved to number ${moved.fieldNumber}`
+            : `field ${oldField.fieldNumber} was removed`,
+          breaks: ["wire", "json"],
+        });
+      }
+      continue;
+    }
+
+    if (newField.name !== oldField.name) {
+      const previousOwner = oldMessage.fields.find((f) => f.name === newField.name);
+      if (previousOwner) {
+        issues.push({
+          kind: "field-number-reused",
+          location: `${oldMessage.name}.${newField.name}`,
+          message: `field ${newField.name} changed number from ${previousOwner.fieldNumber} to ${newField.fieldNumber}, which belonged to ${oldField.name}`,
+          breaks: ["wire", "json"],
+        });
+        continue;
+      }
+      issues.push({
+        kind: "field-renamed",
+        location,
+        message: `field ${oldField.fieldNumber} was renamed to ${newField.name}`,
+        breaks: ["json"],
+      });
+    }
+
+    const typeBreaks = typeChangeBreaks(oldField, newField, oldSchema, newSchema);
+    if (typeBreaks.length > 0) {
+      issues.push({
+        kind: "field-type-changed",
+        location,
+        message: `field ${oldField.fieldNumber} changed type from ${typeOf(oldField)} to ${typeOf(newField)}`,
+        breaks: typeBreaks,
+      });
+    }
+
+    if (oldField.repeated !== newField.repeated || Boolean(oldField.mapKey) !== Boolean(newField.mapKey)) {
+      issues.push({
+        kind: "field-label-changed",
+        location,
+        message: `field ${oldField.fieldNumber} changed from ${labelOf(oldField)} to ${labelOf(newField)}`,
+        breaks: ["wire", "json"],
+      });
+    }
+  }
+
+  for (const newField of newMessage.fields) {
+    if (isReservedNumber(oldMessage.reserved, newField.fieldNumber)) {
+      issues.push({
+        kind: "field-number-reused",
+        location: `${newMessage.name}.${newField.name}`,
+        message: `field ${newField.name} uses number ${newField.fieldNumber}, which was reserved`,
+        breaks: ["wire", "json"],
+      });
+    }
+  }
+}
+
+function compareEnums(oldEnum: ProtoEnum, newEnum: ProtoEnum, issues: CompatIssue[]): void {
+  for (const oldValue of oldEnum.values) {
+    const location = `${oldEnum.name}.${oldValue.name}`;
+    const newValue = newEnum.values.find((v) => v.number === oldValue.number);
+
+    if (!newValue) {
+      const moved = newEnum.values.find((v) => v.name === oldValue.name);
+      if (moved || !isReservedNumber(newEnum.reserved, oldValue.number)) {
+        issues.push({
+          kind: "enum-value-removed",
+          location,
+          message: moved
+            ? `enum value ${oldValue.number} moved to number ${moved.number}`
+            : `enum value ${oldValue.number} was removed`,
+          breaks: ["wire", "json"],
+        });
+      }
+      continue;
+    }
+
+    if (newValue.name !== oldValue.name) {
+      const previousOwner = oldEnum.values.find((v) => v.name === newValue.name);
+      issues.push(
+        previousOwner
+          ? {
+              kind: "enum-value-number-reused",
+              location: `${oldEnum.name}.${newValue.name}`,
+              message: `enum value ${newValue.name} changed number from ${previousOwner.number} to ${newValue.number}, which belonged to ${oldValue.name}`,
+              breaks: ["wire", "json"],
+            }
+          : {
+              kind: "enum-value-renamed",
+              location,
+              message: `enum value ${oldValue.number} was renamed to ${newValue.name}`,
+              breaks: ["json"],
+            }
+      );
+    }
+  }
+
+  for (const newValue of newEnum.values) {
+    if (isReservedNumber(oldEnum.reserved, newValue.number)) {
+      issues.push({
+        kind: "enum-value-number-reused",
+        location: `${newEnum.name}.${newValue.name}`,
+        message: `enum value ${newValue.name} uses number ${newValue.number}, which was reserved`,
+        breaks: ["wire", "json"],
+      });
+    }
+  }
+}
+
+// A map whose key type changes breaks like a field of that type would
+function typeChangeBreaks(
+  oldField: ProtoField,
+  newField: ProtoField,
+  oldSchema: ProtoSchema,
+  newSchema: ProtoSchema
+): CompatBreak[] {
+  const breaks = new Set(changeBreaks(oldField.type, newField.type, oldSchema, newSchema));
+  if (oldField.mapKey && newField.mapKey) {
+    for (const change of changeBreaks(oldField.mapKey, newField.mapKey, oldSchema, newSchema)) {
+      breaks.add(change);
+    }
+  }
+  return (["wire", "json"] as const).filter((change) => breaks.has(change));
+}
+
+function changeBreaks(oldType: string, newType: string, oldSchema: ProtoSchema, newSchema: ProtoSchema): CompatBreak[] {
+  if (oldType === newType) {
+    return [];
+  }
+  const oldKind = scalarKind(oldType, oldSchema);
+  const newKind = scalarKind(newType, newSchema);
+  const sameGroup = (groups: string[][]) =>
+    groups.some((group) => group.includes(oldKind) && group.includes(newKind));
+
+  if (!sameGroup(WIRE_GROUPS)) {
+    return ["wire", "json"];
+  }
+  return sameGroup(JSON_GROUPS) ? [] : ["json"];
+}
+
+// Maps enum types to "enum" so they compare like int32; messages and
+// well-known types keep their names and are only compatible with themselves.
+function scalarKind(type: string, schema: ProtoSchema): string {
+  return schema.enums.some((e) => e.name === type) ? "enum" : type;
+}
+
+function typeOf(field: ProtoField): string {
+  return field.mapKey ? `map<${field.mapKey}, ${field.type}>` : field.type;
+}
+
+function labelOf(field: ProtoField): string {
+  if (field.repeated) {
+    return "repeated";
+  }
+  if (field.mapKey) {
+    return "map";
+  }
+  return field.optional ? "optional" : "singular";
+}
+
+function isReservedNumber(reserved: ProtoReserved, num: number): boolean {
+  return reserved.ranges.some(([start, end]) => num >= start && num <= end);
+}
+
+/**
+ * Reads a previously generated (or hand-written) .proto file into the same
+ * structural model the converter produces, so it can be compared against a
+ * MOTLY schema. Nested declarations are flattened as `Outer.Inner`.
+ */
+export function protoToSchema(protoContent: string): ProtoSchema {
+  const { root, package: packageName } = protobuf.parse(protoContent, { keepCase: true });
+  const schema: ProtoSchema = { packageName, messages: [], enums: [] };
+
+  const packageNamespace = packageName ? root.lookup(packageName) : root;
+  if (packageNamespace instanceof protobuf.Namespace) {
+    collectDeclarations(packageNamespace, "", packageName ?? "", schema);
+  }
+  return schema;
+}
+
+function collectDeclarations(
+  namespace: protobuf.NamespaceBase,
+  prefix: string,
+  packageName: string,
+  schema: ProtoSchema
+): void {
+  for (const nested of namespace.nestedArray) {
+    const name = prefix + nested.name;
+    if (nested instanceof protobuf.Type) {
+      schema.messages.push({
+        name,
+        fields: nested.fieldsArray.map((field) => ({
+          name: field.name,
+          type: normalizeTypeName(field.type, packageName),
+          repeated: field.repeated,
+          optional: field.options?.proto3_optional === true,
+          fieldNumber: field.id,
+          ...(field instanceof protobuf.MapField ? { mapKey: field.keyType } : {}),
+          ...(field.partOf && field.options?.proto3_optional !== true ? { oneof: field.partOf.name } : {}),
+        })),
+        reserved: toReserved(nested.reserved),
+      });
+      collectDeclarations(nested, `${name}.`, packageName, schema);
+    } else if (nested instanceof protobuf.Enum) {
+      schema.enums.push({
+        name,
+        values: Object.entries(nested.values)
+          .filter(([, num]) => num !== 0)
+          .map(([valueName, num]) => ({ name: valueName, number: num })),
+        reserved: toReserved(nested.reserved),
+      });
+    }
+  }
+}
+
+function normalizeTypeName(type: string, packageName: string): string {
+  const absolute = type.replace(/^\./, "");
+  return packageName && absolute.startsWith(`${packageName}.`)
+    ? absolute.slice(packageName.length + 1)
+    : absolute;
+}
+
+function toReserved(reserved: Array<number[] | string> | undefined): ProtoReserved {
+  const result: ProtoReserved = { ranges: [], names: [] };
+  for (const entry of reserved ?? []) {
+    if (typeof entry === "string") {
+      result.names.push(entry);
+    } else {
+      result.ranges.push([entry[0], entry[1]]);
+    }
+  }
+  return result;
+}
+
+export function formatCompatIssue(issue: CompatIssue): string {
+  return `BREAKING [${issue.breaks.join(", ")}] ${issue.location}: ${issue.message}`;
+}
@@ -0,0 +1,247 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import descriptor from "protobufjs/ext/descriptor/index.js";
+import { schemaToDescriptorSet } from "./descriptor.js";
+import { convertMotlySchemaFiles } from "./imports.js";
+import { convertMotlySchema } from "./motly-to-proto.js";
+
+// Decodes the set back into plain objects, with enum values as names
+function compile(motly: string, options = {}) {
+  const { schema } = convertMotlySchema(motly, "Test", options);
+  const bytes = schemaToDescriptorSet(schema, "test.proto");
+  const set = descriptor.FileDescriptorSet.decode(bytes);
+  return descriptor.FileDescriptorSet.toObject(set, { enums: String }).file;
+}
+
+describe("schemaToDescriptorSet", () => {
+  it("describes messages, fields and enums", () => {
+    const [file] = compile(
+      `
+        Types: { Status = [pending, active] }
+        Required: {
+          userName = string
+          status = Status
+          tags = "string[]"
+        }
+      `,
+      { packageName: "app.v1" }
+    );
+
+    assert.strictEqual(file.name, "test.proto");
+    assert.strictEqual(file.package, "app.v1");
+    assert.strictEqual(file.syntax, "proto3");
+    assert.deepStrictEqual(file.enumType[0].value, [
+      { name: "STATUS_UNSPECIFIED", number: 0 },
+      { name: "STATUS_PENDING", number: 1 },
+      { name: "STATUS_ACTIVE", number: 2 },
+    ]);
+
+    const [message] = file.messageType;
+    assert.strictEqual(message.name, "Test");
+    assert.deepStrictEqual(message.field, [
+      { name: "user_name", number: 1, label: "LABEL_OPTIONAL", type: "TYPE_STRING", jsonName: "userName" },
+      {
+        name: "status",
+        number: 2,
+        label: "LABEL_OPTIONAL",
+        type: "TYPE_ENUM",
+        typeName: ".app.v1.Status",
+        jsonName: "status",
+      },
+      { name: "tags", number: 3, label: "LABEL_REPEATED", type: "TYPE_STRING", jsonName: "tags" },
+    ]);
+  });
+
+  it("carries file options", () => {
+    const [file] = compile(
+      [
+        '#! go_package = "example.com/app;app"',
+        "#! optimize_for = LITE_RUNTIME",
+        "Required: { id = string }",
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(file.options, { goPackage: "example.com/app;app", optimizeFor: "LITE_RUNTIME" });
+  });
+
+  it("carries deprecated and json_name annotations", () => {
+    const [file] = compile(`
+      Types: { Status = [active, legacy { deprecated }] }
+      Required: {
+        userName = string { json_name="user" deprecated }
+        status = Status
+      }
+    `);
+
+    const [userName] = file.messageType[0].field;
+    assert.strictEqual(userName.jsonName, "user");
+    assert.deepStrictEqual(userName.options, { deprecated: true });
+    assert.deepStrictEqual(file.enumType[0].value[2], {
+      name: "STATUS_LEGACY",
+      number: 2,
+      options: { deprecated: true },
+    });
+  });
+
+  it("marks enums that allow aliases", () => {
+    const [file] = compile("Required: { mode: { allow_alias = @true started = 1 running = 1 } }");
+
+    assert.deepStrictEqual(file.enumType[0].options, { allowAlias: true });
+  });
+
+  it("refuses buf.validate constraints", () => {
+    assert.throws(
+      () => compile("Required: { name = string { min_length=1 } }", { validate: true }),
+      /descriptor sets can't hold buf\.validate constraints/
+    );
+  });
+
+  it("refuses types imported from other files", () => {
+    const files: Record<string, string> = {
+      "users.motly": '#! package = "users.v1"\nTypes: { User: { Required: { id = string } } }',
+      "test.motly": '#! import = ["users.motly"]\nRequired: { owner = User }',
+    };
+    const [, { result }] = convertMotlySchemaFiles("test.motly", "Test", (path) => files[path]);
+
+    assert.throws(
+      () => schemaToDescriptorSet(result.schema, "test.proto"),
+      /descriptor sets can't refer to imported types: users\.v1\.User/
+    );
+  });
+
+  it("gives optional fields synthetic oneofs after the real ones", () => {
+    const [file] = compile(`
+      Optional: { nickname = string }
+      Required: {
+        value: { oneOf = [string, number] }
+      }
+    `);
+    const [message] = file.messageType;
+
+    assert.deepStrictEqual(
+      message.oneofDecl.map((o: { name: string }) => o.name),
+      ["value", "_nickname"]
+    );
+    const nickname = message.field.find((f: { name: string }) => f.name === "nickname");
+    assert.strictEqual(nickname.proto3Optional, true);
+    assert.strictEqual(nickname.oneofIndex, 1);
+  });
+
+  it("writes reserved message ranges with an exclusive end", () => {
+    const previous = convertMotlySchema(
+      `
+        Required: {
+          id = string
+          a = string
+          b = string
+        }
+      `,
+      "Test"
+    );
+    const [file] = compile(`Required: { id = string }`, { lock: previous.lock });
+
+    assert.deepStrictEqual(file.messageType[0].reservedRange, [{ start: 2, end: 4 }]);
+  });
+
+  it("describes map fields with nested entry messages", () => {
+    const [file] = compile(`
+      Types: { int64 = number }
+      Optional: { countsByName = "map<string, int64>" }
+    `);
+    const [message] = file.messageType;
+
+    assert.deepStrictEqual(message.field[0], {
+      name: "counts_by_name",
+      number: 1,
+      label: "LABEL_REPEATED",
+      type: "TYPE_MESSAGE",
+      typeName: ".Test.CountsByNameEntry",
+      jsonName: "countsByName",
+    });
+    assert.deepStrictEqual(message.nestedType, [
+      {
+        name: "CountsByNameEntry",
+        field: [
+          { name: "key", number: 1, label: "LABEL_OPTIONAL", type: "TYPE_STRING", jsonName: "key" },
+          { name: "value", number: 2, label: "LABEL_OPTIONAL", type: "TYPE_INT64", jsonName: "value" },
+        ],
+        options: { mapEntry: true },
+      },
+    ]);
+  });
+
+  it("describes services and their streaming methods", () => {
+    const [, file] = compile(
+      `
+        Required: { id = string }
+        Services: {
+          Api: {
+            get: { input = Test output = Test }
+            watch: { input = tag output = Test stream = server }
+          }
+        }
+      `,
+      { packageName: "app.v1" }
+    );
+
+    assert.deepStrictEqual(file.dependency, ["google/protobuf/struct.proto"]);
+    assert.deepStrictEqual(file.service, [
+      {
+        name: "Api",
+        method: [
+          { name: "Get", inputType: ".app.v1.Test", outputType: ".app.v1.Test" },
+          {
+            name: "Watch",
+            inputType: ".google.protobuf.Struct",
+            outputType: ".app.v1.Test",
+            serverStreaming: true,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("includes the well-known type files it depends on", () => {
+    const files = compile(`
+      Required: {
+        createdAt = date
+        extra = tag
+      }
+    `);
+
+    assert.deepStrictEqual(
+      files.map((f: { name: string }) => f.name),
+      ["google/protobuf/timestamp.proto", "google/protobuf/struct.proto", "test.proto"]
+    );
+    assert.deepStrictEqual(files[2].dependency, [
+      "google/protobuf/timestamp.proto",
+      "google/protobuf/struct.proto",
+    ]);
+    const createdAt = files[2].messageType[0].field[0];
+    assert.strictEqual(createdAt.typeName, ".google.protobuf.Timestamp");
+  });
+
+  it("includes the google.type files of dates, times, decimals and money", () => {
+    const files = compile(`
+      Required: {
+        price = money
+        day = dateonly
+        timeout = duration
+      }
+    `);
+
+    assert.deepStrictEqual(
+      files.map((f: { name: string }) => f.name),
+      ["google/protobuf/duration.proto", "google/type/date.proto", "google/type/money.proto", "test.proto"]
+    );
+    assert.strictEqual(files[2].package, "google.type");
+    assert.deepStrictEqual(
+      files[2].messageType[0].field.map((f: { name: string; type: string }) => [f.name, f.type]),
+      [
+        ["currency_code", "TYPE_STRING"],
+        ["units", "TYPE_INT64"],
+        ["nanos", "TYPE_INT32"],
+      ]
+    );
+  });
+});
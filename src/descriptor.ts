@@ -0,0 +1,424 @@
+import descriptor from "protobufjs/ext/descriptor/index.js";
+import { toJsonName, toUpperCamelCase, unspecifiedValueName } from "./naming.js";
+import type { FileOptions } from "./file-options.js";
+import type { ProtoEnum, ProtoField, ProtoMessage, ProtoSchema, ProtoService } from "./motly-to-proto.js";
+
+// Plain-object shapes of the descriptor.proto messages that are produced here;
+// enum-typed fields use the enum value names, as `fromObject` accepts them
+interface FileDescriptor {
+  name: string;
+  package?: string;
+  dependency: string[];
+  messageType: MessageDescriptor[];
+  enumType: EnumDescriptor[];
+  service?: ServiceDescriptor[];
+  /** FileOptions by field name, e.g. `goPackage` */
+  options?: Record<string, string | boolean>;
+  syntax: "proto3";
+}
+
+interface MessageDescriptor {
+  name: string;
+  field: FieldDescriptor[];
+  nestedType?: MessageDescriptor[];
+  oneofDecl: Array<{ name: string }>;
+  options?: { mapEntry: boolean };
+  /** End is exclusive */
+  reservedRange: Array<{ start: number; end: number }>;
+  reservedName: string[];
+}
+
+interface FieldDescriptor {
+  name: string;
+  number: number;
+  label: "LABEL_OPTIONAL" | "LABEL_REPEATED";
+  type: string;
+  typeName?: string;
+  oneofIndex?: number;
+  jsonName: string;
+  proto3Optional?: boolean;
+  options?: { deprecated: boolean };
+}
+
+interface EnumDescriptor {
+  name: string;
+  value: Array<{ name: string; number: number; options?: { deprecated: boolean } }>;
+  options?: { allowAlias: boolean };
+  /** End is inclusive, unlike message reserved ranges */
+  reservedRange: Array<{ start: number; end: number }>;
+  reservedName: string[];
+}
+
+interface ServiceDescriptor {
+  name: string;
+  method: Array<{
+    name: string;
+    inputType: string;
+    outputType: string;
+    clientStreaming?: boolean;
+    serverStreaming?: boolean;
+  }>;
+}
+
+const SCALAR_TYPES = new Set([
+  "double",
+  "float",
+  "int64",
+  "uint64",
+  "int32",
+  "fixed64",
+  "fixed32",
+  "bool",
+  "string",
+  "bytes",
+  "uint32",
+  "sfixed32",
+  "sfixed64",
+  "sint32",
+  "sint64",
+]);
+
+// Well-known types the converter can reference, by the file that defines them
+const WELL_KNOWN_FILES: Record<string, string> = {
+  "google.protobuf.Timestamp": "google/protobuf/timestamp.proto",
+  "google.protobuf.Duration": "google/protobuf/duration.proto",
+  "google.protobuf.Struct": "google/protobuf/struct.proto",
+  "google.protobuf.Value": "google/protobuf/struct.proto",
+  "google.protobuf.ListValue": "google/protobuf/struct.proto",
+  "google.protobuf.DoubleValue": "google/protobuf/wrappers.proto",
+  "google.protobuf.FloatValue": "google/protobuf/wrappers.proto",
+  "google.protobuf.Int64Value": "google/protobuf/wrappers.proto",
+  "google.protobuf.UInt64Value": "google/protobuf/wrappers.proto",
+  "google.protobuf.Int32Value": "google/protobuf/wrappers.proto",
+  "google.protobuf.UInt32Value": "google/protobuf/wrappers.proto",
+  "google.protobuf.BoolValue": "google/protobuf/wrappers.proto",
+  "google.protobuf.StringValue": "google/protobuf/wrappers.proto",
+  "google.protobuf.BytesValue": "google/protobuf/wrappers.proto",
+  "google.type.Date": "google/type/date.proto",
+  "google.type.TimeOfDay": "google/type/timeofday.proto",
+  "google.type.Decimal": "google/type/decimal.proto",
+  "google.type.Money": "google/type/money.proto",
+};
+
+/**
+ * Compiles a schema into a serialized `google.protobuf.FileDescriptorSet`,
+ * the binary form protoc writes with `--descriptor_set_out
+ * --include_imports`. The set holds the schema as `fileName` plus the
+ * well-known type files it imports, dependencies first; types imported from
+ * other .motly files can't be referred to.
+ */
+export function schemaToDescriptorSet(schema: ProtoSchema, fileName: string): Uint8Array {
+  if (schema.messages.some((m) => m.requiredOneofs || m.fields.some((f) => f.constraints))) {
+    throw new Error("descriptor sets can't hold buf.validate constraints; convert without validation");
+  }
+  const declared = new Set([...schema.messages, ...schema.enums].map((t) => t.name));
+  const imported = [...referencedTypes(schema)].filter(
+    (type) => !SCALAR_TYPES.has(type) && !WELL_KNOWN_FILES[type] && !declared.has(type)
+  );
+  if (imported.length > 0) {
+    throw new Error(`descriptor sets can't refer to imported types: ${imported.join(", ")}`);
+  }
+  const FileDescriptorSet = descriptor.FileDescriptorSet;
+  const file = buildFileDescriptor(schema, fileName);
+  const wellKnown = file.dependency.map((dependency) => WELL_KNOWN_DESCRIPTORS[dependency]);
+  const set = FileDescriptorSet.fromObject({ file: [...wellKnown, file] });
+  return FileDescriptorSet.encode(set).finish();
+}
+
+function buildFileDescriptor(schema: ProtoSchema, fileName: string): FileDescriptor {
+  const prefix = schema.packageName ? `.${schema.packageName}.` : ".";
+  const enumNames = new Set(schema.enums.map((e) => e.name));
+
+  const fieldTypes = referencedTypes(schema);
+  const dependencies = new Set(
+    Object.entries(WELL_KNOWN_FILES).flatMap(([type, file]) => (fieldTypes.has(type) ? [file] : []))
+  );
+
+  return {
+    name: fileName,
+    ...(schema.packageName ? { package: schema.packageName } : {}),
+    dependency: [...dependencies],
+    messageType: schema.messages.map((message) => buildMessageDescriptor(message, prefix, enumNames)),
+    enumType: schema.enums.map(buildEnumDescriptor),
+    ...(schema.services ? { service: schema.services.map((service) => buildServiceDescriptor(service, prefix)) } : {}),
+    ...(schema.options ? { options: fileOptions(schema.options) } : {}),
+    syntax: "proto3",
+  };
+}
+
+// Types of every field and method
+function referencedTypes(schema: ProtoSchema): Set<string> {
+  return new Set([
+    ...schema.messages.flatMap((m) => m.fields.map((f) => f.type)),
+    ...(schema.services ?? []).flatMap((s) => s.methods.flatMap((m) => [m.inputType, m.outputType])),
+  ]);
+}
+
+// FileOptions fields are the lowerCamelCase of the option names
+function fileOptions(options: FileOptions): Record<string, string | boolean> {
+  return Object.fromEntries(Object.entries(options).map(([name, value]) => [toJsonName(name), value]));
+}
+
+function buildMessageDescriptor(
+  message: ProtoMessage,
+  prefix: string,
+  enumNames: Set<string>
+): MessageDescriptor {
+  // Synthetic oneofs of proto3 `optional` fields must follow the real ones
+  const oneofs = [...new Set(message.fields.flatMap((f) => (f.oneof ? [f.oneof] : [])))];
+  const optionalFields = message.fields.filter((f) => f.optional && !f.repeated && !f.mapKey && !f.oneof);
+  const mapFields = message.fields.filter((f) => f.mapKey);
+
+  const field = message.fields.map((f): FieldDescriptor => {
+    const fieldDescriptor: FieldDescriptor = {
+      name: f.name,
+      number: f.fieldNumber,
+      label: f.repeated || f.mapKey ? "LABEL_REPEATED" : "LABEL_OPTIONAL",
+      ...(f.mapKey
+        ? { type: "TYPE_MESSAGE", typeName: `${prefix}${message.name}.${mapEntryName(f)}` }
+        : fieldType(f, prefix, enumNames)),
+      jsonName: f.jsonName ?? toJsonName(f.name),
+      ...(f.deprecated ? { options: { deprecated: true } } : {}),
+    };
+    if (f.oneof) {
+      fieldDescriptor.oneofIndex = oneofs.indexOf(f.oneof);
+    } else if (optionalFields.includes(f)) {
+      fieldDescriptor.oneofIndex = oneofs.length + optionalFields.indexOf(f);
+      fieldDescriptor.proto3Optional = true;
+    }
+    return fieldDescriptor;
+  });
+
+  return {
+    name: message.name,
+    field,
+    ...(mapFields.length > 0 ? { nestedType: mapFields.map((f) => mapEntryDescriptor(f, prefix, enumNames)) } : {}),
+    oneofDecl: [...oneofs, ...optionalFields.map((f) => `_${f.name}`)].map((name) => ({ name })),
+    reservedRange: message.reserved.ranges.map(([start, end]) => ({ start, end: end + 1 })),
+    reservedName: message.reserved.names,
+  };
+}
+
+// A map field is a repeated message of key/value pairs, named as protoc names it
+function mapEntryName(field: ProtoField): string {
+  return `${toUpperCamelCase(field.name)}Entry`;
+}
+
+function mapEntryDescriptor(field: ProtoField, prefix: string, enumNames: Set<string>): MessageDescriptor {
+  const pair = (name: string, number: number, type: Pick<FieldDescriptor, "type" | "typeName">): FieldDescriptor => ({
+    name,
+    number,
+    label: "LABEL_OPTIONAL",
+    ...type,
+    jsonName: name,
+  });
+  return {
+    name: mapEntryName(field),
+    field: [
+      pair("key", 1, fieldType({ ...field, type: field.mapKey! }, prefix, enumNames)),
+      pair("value", 2, fieldType(field, prefix, enumNames)),
+    ],
+    oneofDecl: [],
+    options: { mapEntry: true },
+    reservedRange: [],
+    reservedName: [],
+  };
+}
+
+function fieldType(
+  field: ProtoField,
+  prefix: string,
+  enumNames: Set<string>
+): Pick<FieldDescriptor, "type" | "typeName"> {
+  if (SCALAR_TYPES.has(field.type)) {
+    return { type: `TYPE_${field.type.toUpperCase()}` };
+  }
+  if (WELL_KNOWN_FILES[field.type]) {
+    return { type: "TYPE_MESSAGE", typeName: `.${field.type}` };
+  }
+  return {
+    type: enumNames.has(field.type) ? "TYPE_ENUM" : "TYPE_MESSAGE",
+    typeName: `${prefix}${field.type}`,
+  };
+}
+
+function buildEnumDescriptor(enumDef: ProtoEnum): EnumDescriptor {
+  return {
+    name: enumDef.name,
+    value: [
+      { name: unspecifiedValueName(enumDef.name), number: 0 },
+      ...enumDef.values.map(({ name, number, deprecated }) => ({
+        name,
+        number,
+        ...(deprecated ? { options: { deprecated: true } } : {}),
+      })),
+    ],
+    ...(enumDef.allowAlias ? { options: { allowAlias: true } } : {}),
+    reservedRange: enumDef.reserved.ranges.map(([start, end]) => ({ start, end })),
+    reservedName: enumDef.reserved.names,
+  };
+}
+
+function buildServiceDescriptor(service: ProtoService, prefix: string): ServiceDescriptor {
+  // Methods only take and return messages, so they're never enums
+  const typeName = (type: string) => (WELL_KNOWN_FILES[type] ? `.${type}` : `${prefix}${type}`);
+  return {
+    name: service.name,
+    method: service.methods.map((method) => ({
+      name: method.name,
+      inputType: typeName(method.inputType),
+      outputType: typeName(method.outputType),
+      ...(method.clientStreaming ? { clientStreaming: true } : {}),
+      ...(method.serverStreaming ? { serverStreaming: true } : {}),
+    })),
+  };
+}
+
+function wellKnownField(
+  name: string,
+  number: number,
+  type: string,
+  extra: Partial<FieldDescriptor> = {}
+): FieldDescriptor {
+  return { name, number, label: "LABEL_OPTIONAL", type, jsonName: toJsonName(name), ...extra };
+}
+
+function wellKnownMessage(
+  name: string,
+  field: FieldDescriptor[],
+  extra: Partial<MessageDescriptor> = {}
+): MessageDescriptor {
+  return { name, field, oneofDecl: [], reservedRange: [], reservedName: [], ...extra };
+}
+
+// A google/type file, which holds one message of the same name
+function googleTypeDescriptor(file: string, name: string, field: FieldDescriptor[]): FileDescriptor {
+  return {
+    name: `google/type/${file}.proto`,
+    package: "google.type",
+    dependency: [],
+    messageType: [wellKnownMessage(name, field)],
+    enumType: [],
+    syntax: "proto3",
+  };
+}
+
+// Copies of the well-known type files, as protoc describes them
+const WELL_KNOWN_DESCRIPTORS: Record<string, FileDescriptor> = {
+  "google/protobuf/timestamp.proto": {
+    name: "google/protobuf/timestamp.proto",
+    package: "google.protobuf",
+    dependency: [],
+    messageType: [
+      wellKnownMessage("Timestamp", [
+        wellKnownField("seconds", 1, "TYPE_INT64"),
+        wellKnownField("nanos", 2, "TYPE_INT32"),
+      ]),
+    ],
+    enumType: [],
+    syntax: "proto3",
+  },
+  "google/protobuf/duration.proto": {
+    name: "google/protobuf/duration.proto",
+    package: "google.protobuf",
+    dependency: [],
+    messageType: [
+      wellKnownMessage("Duration", [
+        wellKnownField("seconds", 1, "TYPE_INT64"),
+        wellKnownField("nanos", 2, "TYPE_INT32"),
+      ]),
+    ],
+    enumType: [],
+    syntax: "proto3",
+  },
+  "google/protobuf/struct.proto": {
+    name: "google/protobuf/struct.proto",
+    package: "google.protobuf",
+    dependency: [],
+    messageType: [
+      wellKnownMessage(
+        "Struct",
+        [
+          wellKnownField("fields", 1, "TYPE_MESSAGE", {
+            label: "LABEL_REPEATED",
+            typeName: ".google.protobuf.Struct.FieldsEntry",
+          }),
+        ],
+        {
+          nestedType: [
+            wellKnownMessage(
+              "FieldsEntry",
+              [
+                wellKnownField("key", 1, "TYPE_STRING"),
+                wellKnownField("value", 2, "TYPE_MESSAGE", { typeName: ".google.protobuf.Value" }),
+              ],
+              { options: { mapEntry: true } }
+            ),
+          ],
+        }
+      ),
+      wellKnownMessage(
+        "Value",
+        [
+          wellKnownField("null_value", 1, "TYPE_ENUM", { typeName: ".google.protobuf.NullValue", oneofIndex: 0 }),
+          wellKnownField("number_value", 2, "TYPE_DOUBLE", { oneofIndex: 0 }),
+          wellKnownField("string_value", 3, "TYPE_STRING", { oneofIndex: 0 }),
+          wellKnownField("bool_value", 4, "TYPE_BOOL", { oneofIndex: 0 }),
+          wellKnownField("struct_value", 5, "TYPE_MESSAGE", { typeName: ".google.protobuf.Struct", oneofIndex: 0 }),
+          wellKnownField("list_value", 6, "TYPE_MESSAGE", { typeName: ".google.protobuf.ListValue", oneofIndex: 0 }),
+        ],
+        { oneofDecl: [{ name: "kind" }] }
+      ),
+      wellKnownMessage("ListValue", [
+        wellKnownField("values", 1, "TYPE_MESSAGE", {
+          label: "LABEL_REPEATED",
+          typeName: ".google.protobuf.Value",
+        }),
+      ]),
+    ],
+    enumType: [
+      {
+        name: "NullValue",
+        value: [{ name: "NULL_VALUE", number: 0 }],
+        reservedRange: [],
+        reservedName: [],
+      },
+    ],
+    syntax: "proto3",
+  },
+  "google/protobuf/wrappers.proto": {
+    name: "google/protobuf/wrappers.proto",
+    package: "google.protobuf",
+    dependency: [],
+    messageType: [
+      wellKnownMessage("DoubleValue", [wellKnownField("value", 1, "TYPE_DOUBLE")]),
+      wellKnownMessage("FloatValue", [wellKnownField("value", 1, "TYPE_FLOAT")]),
+      wellKnownMessage("Int64Value", [wellKnownField("value", 1, "TYPE_INT64")]),
+      wellKnownMessage("UInt64Value", [wellKnownField("value", 1, "TYPE_UINT64")]),
+      wellKnownMessage("Int32Value", [wellKnownField("value", 1, "TYPE_INT32")]),
+      wellKnownMessage("UInt32Value", [wellKnownField("value", 1, "TYPE_UINT32")]),
+      wellKnownMessage("BoolValue", [wellKnownField("value", 1, "TYPE_BOOL")]),
+      wellKnownMessage("StringValue", [wellKnownField("value", 1, "TYPE_STRING")]),
+      wellKnownMessage("BytesValue", [wellKnownField("value", 1, "TYPE_BYTES")]),
+    ],
+    enumType: [],
+    syntax: "proto3",
+  },
+  "google/type/date.proto": googleTypeDescriptor("date", "Date", [
+    wellKnownField("year", 1, "TYPE_INT32"),
+    wellKnownField("month", 2, "TYPE_INT32"),
+    wellKnownField("day", 3, "TYPE_INT32"),
+  ]),
+  "google/type/timeofday.proto": googleTypeDescriptor("timeofday", "TimeOfDay", [
+    wellKnownField("hours", 1, "TYPE_INT32"),
+    wellKnownField("minutes", 2, "TYPE_INT32"),
+    wellKnownField("seconds", 3, "TYPE_INT32"),
+    wellKnownField("nanos", 4, "TYPE_INT32"),
+  ]),
+  "google/type/decimal.proto": googleTypeDescriptor("decimal", "Decimal", [wellKnownField("value", 1, "TYPE_STRING")]),
+  "google/type/money.proto": googleTypeDescriptor("money", "Money", [
+    wellKnownField("currency_code", 1, "TYPE_STRING"),
+    wellKnownField("units", 2, "TYPE_INT64"),
+    wellKnownField("nanos", 3, "TYPE_INT32"),
+  ]),
+};
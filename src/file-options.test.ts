@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { deriveFileOptions, generateFileOptions, parseFileOption } from "./file-options.js";
+
+describe("parseFileOption", () => {
+  it("accepts well-formed values", () => {
+    assert.deepStrictEqual(parseFileOption("go_package", "example.com/acme/billing/v1;billingv1"), {
+      value: "example.com/acme/billing/v1;billingv1",
+    });
+    assert.deepStrictEqual(parseFileOption("php_namespace", "Acme\\Billing"), { value: "Acme\\Billing" });
+    assert.deepStrictEqual(parseFileOption("java_multiple_files", "false"), { value: false });
+    assert.deepStrictEqual(parseFileOption("java_multiple_files", true), { value: true });
+  });
+
+  it("describes what was expected", () => {
+    assert.deepStrictEqual(parseFileOption("java_package", "com.acme-corp"), {
+      error: 'java_package must be a dotted Java package name, got "com.acme-corp"',
+    });
+    assert.deepStrictEqual(parseFileOption("optimize_for", "FAST"), {
+      error: 'optimize_for must be SPEED, CODE_SIZE or LITE_RUNTIME, got "FAST"',
+    });
+    assert("error" in parseFileOption("objc_class_prefix", "abc"));
+    assert("error" in parseFileOption("ruby_package", "acme::billing"));
+    assert("error" in parseFileOption("go_package", true));
+  });
+});
+
+describe("deriveFileOptions", () => {
+  it("follows the usual conventions of each language", () => {
+    assert.deepStrictEqual(deriveFileOptions("acme.billing.v1", "billing/v1/invoice-item.motly"), {
+      go_package: "acme/billing/v1;billingv1",
+      java_package: "com.acme.billing.v1",
+      java_multiple_files: true,
+      java_outer_classname: "InvoiceItemProto",
+      csharp_namespace: "Acme.Billing.V1",
+      objc_class_prefix: "ABX",
+      php_namespace: "Acme\\Billing\\V1",
+      ruby_package: "Acme::Billing::V1",
+    });
+  });
+
+  it("derives only the class name without a package", () => {
+    assert.deepStrictEqual(deriveFileOptions(undefined, "user.motly"), { java_outer_classname: "UserProto" });
+    assert.deepStrictEqual(deriveFileOptions(undefined), {});
+  });
+});
+
+describe("generateFileOptions", () => {
+  it("quotes strings but not booleans or optimize_for", () => {
+    assert.deepStrictEqual(
+      generateFileOptions({ optimize_for: "LITE_RUNTIME", java_multiple_files: true, go_package: "a/b;b" }),
+      ['option go_package = "a/b;b";', "option java_multiple_files = true;", "option optimize_for = LITE_RUNTIME;"]
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { toUpperCamelCase } from "./naming.js";
+
+/** Standard file options, by their name in .proto files */
+export interface FileOptions {
+  go_package?: string;
+  java_package?: string;
+  java_multiple_files?: boolean;
+  java_outer_classname?: string;
+  csharp_namespace?: string;
+  objc_class_prefix?: string;
+  php_namespace?: string;
+  ruby_package?: string;
+  swift_prefix?: string;
+  optimize_for?: "SPEED" | "CODE_SIZE" | "LITE_RUNTIME";
+}
+
+const IDENTIFIER = "[A-Za-z_][A-Za-z0-9_]*";
+
+// Accepted format of each option, in the order they're written out
+const OPTION_FORMATS: Record<keyof FileOptions, { pattern: RegExp; expected: string }> = {
+  go_package: {
+    pattern: new RegExp(`^[^\\s;"]+(;${IDENTIFIER})?$`),
+    expected: 'an import path, optionally followed by ";packagename"',
+  },
+  java_package: {
+    pattern: new RegExp(`^${IDENTIFIER}(\\.${IDENTIFIER})*$`),
+    expected: "a dotted Java package name",
+  },
+  java_multiple_files: { pattern: /^(true|false)$/, expected: "true or false" },
+  java_outer_classname: { pattern: new RegExp(`^${IDENTIFIER}$`), expected: "a Java class name" },
+  csharp_namespace: {
+    pattern: new RegExp(`^${IDENTIFIER}(\\.${IDENTIFIER})*$`),
+    expected: "a dotted C# namespace",
+  },
+  objc_class_prefix: { pattern: /^[A-Z][A-Z0-9]*$/, expected: "uppercase letters and digits" },
+  php_namespace: {
+    pattern: new RegExp(`^${IDENTIFIER}(\\\\${IDENTIFIER})*$`),
+    expected: "a PHP namespace separated by backslashes",
+  },
+  ruby_package: { pattern: /^[A-Z]\w*(::[A-Z]\w*)*$/, expected: "a Ruby module path such as Acme::Billing" },
+  swift_prefix: { pattern: new RegExp(`^(${IDENTIFIER})?$`), expected: "a Swift identifier prefix" },
+  optimize_for: { pattern: /^(SPEED|CODE_SIZE|LITE_RUNTIME)$/, expected: "SPEED, CODE_SIZE or LITE_RUNTIME" },
+};
+
+export const FILE_OPTION_NAMES = Object.keys(OPTION_FORMATS) as Array<keyof FileOptions>;
+
+/**
+ * Checks a file option value as written in a directive or on the command
+ * line, returning the typed value or a description of what was expected.
+ * `java_multiple_files` takes a boolean or the strings "true"/"false".
+ */
+export function parseFileOption(
+  name: keyof FileOptions,
+  value: unknown
+): { value: FileOptions[keyof FileOptions] } | { error: string } {
+  const { pattern, expected } = OPTION_FORMATS[name];
+  const text = typeof value === "boolean" && name === "java_multiple_files" ? String(value) : value;
+  if (typeof text !== "string" || !pattern.test(text)) {
+    return { error: `${name} must be ${expected}, got ${JSON.stringify(value)}` };
+  }
+  return { value: name === "java_multiple_files" ? text === "true" : text };
+}
+
+/**
+ * Options derived from the proto package the way the usual conventions
+ * (and tools like Buf's managed mode) would name them: for `acme.billing.v1`,
+ * go_package `acme/billing/v1;billingv1`, java_package
+ * `com.acme.billing.v1`, csharp_namespace `Acme.Billing.V1`, and so on.
+ * java_outer_classname comes from the file name when it's known.
+ */
+export function deriveFileOptions(packageName: string | undefined, fileName?: string): FileOptions {
+  const options: FileOptions = {};
+  if (fileName) {
+    const baseName = (fileName.split("/").pop() ?? fileName).replace(/\.(motly|mtly|proto)$/, "");
+    options.java_outer_classname = `${toUpperCamelCase(baseName).replace(/[^A-Za-z0-9_]/g, "")}Proto`;
+  }
+  if (!packageName) {
+    return options;
+  }
+
+  const parts = packageName.split(".");
+  const last = parts[parts.length - 1];
+  // A version suffix is folded into the Go package name: billingv1
+  const goName = /^v\d/.test(last) && parts.length > 1 ? `${parts[parts.length - 2]}${last}` : last;
+  const pascalParts = parts.map((part) => toUpperCamelCase(part));
+  const initials = parts
+    .filter((part) => !/^v\d/.test(part))
+    .map((part) => part.charAt(0).toUpperCase())
+    .join("");
+
+  return {
+    go_package: `${parts.join("/")};${goName.replace(/[^A-Za-z0-9_]/g, "")}`,
+    java_package: `com.${packageName}`,
+    java_multiple_files: true,
+    ...options,
+    csharp_namespace: pascalParts.join("."),
+    // Two-letter prefixes are reserved by Apple, and GPB by protobuf itself
+    objc_class_prefix: initials.length < 3 ? initials.padEnd(3, "X") : initials === "GPB" ? "GPX" : initials,
+    php_namespace: pascalParts.join("\\"),
+    ruby_package: pascalParts.join("::"),
+  };
+}
+
+/** The `option ...;` lines of a .proto file, in a fixed order */
+export function generateFileOptions(options: FileOptions): string[] {
+  return FILE_OPTION_NAMES.flatMap((name) => {
+    const value = options[name];
+    if (value === undefined) {
+      return [];
+    }
+    const literal = typeof value === "boolean" || name === "optimize_for" ? String(value) : JSON.stringify(value);
+    return [`option ${name} = ${literal};`];
+  });
+}
@@ -0,0 +1,176 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { convertMotlySchemaBatch, convertMotlySchemaFiles } from "./imports.js";
+import { SchemaError } from "./motly-to-proto.js";
+import { derivePackageName } from "./naming.js";
+
+function reader(files: Record<string, string>) {
+  return (path: string) => {
+    if (!(path in files)) {
+      throw new Error("no such file");
+    }
+    return files[path];
+  };
+}
+
+const ADDRESS = `#! package = "common.v1"
+Types: {
+  Country = [us, ca]
+  Address: {
+    Required: {
+      street = string
+      country = Country
+    }
+  }
+}
+`;
+
+describe("convertMotlySchemaFiles", () => {
+  it("generates one .proto per file, importing types across packages", () => {
+    const files = convertMotlySchemaFiles(
+      "order.motly",
+      "Order",
+      reader({
+        "order.motly": [
+          '#! package = "shop.v1"',
+          '#! import = ["common/address.motly"]',
+          "Required: {",
+          "  shipTo = Address",
+          '  billingCountry = "common.v1.Country"',
+          "}",
+        ].join("\n"),
+        "common/address.motly": ADDRESS,
+      })
+    );
+
+    assert.deepStrictEqual(
+      files.map((f) => [f.path, f.protoPath]),
+      [
+        ["common/address.motly", "common/address.proto"],
+        ["order.motly", "order.proto"],
+      ]
+    );
+    assert.deepStrictEqual(files[0].result.types, { Country: "Country", Address: "Address" });
+    assert.match(files[0].result.proto, /enum Country \{[\s\S]*message Address \{/);
+    assert.strictEqual(
+      files[1].result.proto,
+      [
+        'syntax = "proto3";',
+        "",
+        "package shop.v1;",
+        "",
+        'import "common/address.proto";',
+        "",
+        "message Order {",
+        "  common.v1.Address ship_to = 1;",
+        "  common.v1.Country billing_country = 2;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("refers to types of the same package by their plain name", () => {
+    const files = convertMotlySchemaFiles(
+      "user.motly",
+      "User",
+      reader({
+        "user.motly": '#! package = "common.v1"\n#! import = "common/address.motly"\nRequired: { home = Address }',
+        "common/address.motly": ADDRESS,
+      })
+    );
+
+    assert.match(files[1].result.proto, / {2}Address home = 1;/);
+  });
+
+  it("converts a file imported twice once", () => {
+    const files = convertMotlySchemaFiles(
+      "a.motly",
+      "A",
+      reader({
+        "a.motly": '#! import = ["b.motly", "c.motly"]\nRequired: {\n  b = B\n  c = C\n}',
+        "b.motly": '#! import = "c.motly"\nTypes: { B: { Required: { c = C } } }',
+        "c.motly": "Types: { C = [x, y] }",
+      })
+    );
+
+    assert.deepStrictEqual(
+      files.map((f) => f.path),
+      ["c.motly", "b.motly", "a.motly"]
+    );
+  });
+
+  it("reports import cycles with the chain of files", () => {
+    const read = reader({
+      "a.motly": '#! import = "b.motly"\nRequired: { x = string }',
+      "b.motly": '#! import = "a.motly"\nTypes: { B = [x] }',
+    });
+
+    assert.throws(
+      () => convertMotlySchemaFiles("a.motly", "A", read),
+      (err: unknown) => {
+        assert(err instanceof SchemaError);
+        assert.deepStrictEqual(
+          err.diagnostics.map((d) => [d.file, d.line, d.message]),
+          [["b.motly", 1, "import cycle: a.motly -> b.motly -> a.motly"]]
+        );
+        return true;
+      }
+    );
+  });
+
+  it("reports missing files and ambiguous types where they are used", () => {
+    assert.throws(
+      () => convertMotlySchemaFiles("a.motly", "A", reader({ "a.motly": '#! import = "gone.motly"' })),
+      /a\.motly:1:4: error: can't read gone\.motly: no such file/
+    );
+
+    const read = reader({
+      "a.motly": '#! import = ["b.motly", "c.motly"]\nRequired: {\n  kind = Kind\n}',
+      "b.motly": '#! package = "b"\nTypes: { Kind = [x] }',
+      "c.motly": '#! package = "c"\nTypes: { Kind = [y] }',
+    });
+    assert.throws(
+      () => convertMotlySchemaFiles("a.motly", "A", read),
+      /a\.motly:3:3: error: A\.kind: type "Kind" is ambiguous: b\.Kind, c\.Kind/
+    );
+  });
+});
+
+describe("convertMotlySchemaBatch", () => {
+  const read = reader({
+    "common/address.motly": "Types: { Address: { Required: { street = string } } }",
+    "billing/v1/invoice-item.motly": '#! import = "common/address.motly"\nRequired: { shipTo = Address }',
+    "billing/v1/broken.motly": "Required: { x = Nope }",
+    "billing/v1/uses-broken.motly": '#! import = "billing/v1/broken.motly"\nRequired: { x = string }',
+  });
+  const paths = [
+    "billing/v1/broken.motly",
+    "billing/v1/invoice-item.motly",
+    "billing/v1/uses-broken.motly",
+    "common/address.motly",
+  ];
+
+  it("converts each file once, with packages from their directories", () => {
+    const { files } = convertMotlySchemaBatch(paths, read, { defaultPackageName: derivePackageName });
+
+    assert.deepStrictEqual(
+      files.map((f) => [f.protoPath, f.result.schema.packageName, f.result.schema.messages.map((m) => m.name)]),
+      [
+        ["common/address.proto", "common", ["Address"]],
+        ["billing/v1/invoice-item.proto", "billing.v1", ["InvoiceItem"]],
+      ]
+    );
+    assert.match(files[1].result.proto, /common\.Address ship_to = 1;/);
+  });
+
+  it("carries on past files that fail", () => {
+    const { failures } = convertMotlySchemaBatch(paths, read);
+
+    assert.deepStrictEqual(
+      failures.map((f) => f.path),
+      ["billing/v1/broken.motly", "billing/v1/uses-broken.motly"]
+    );
+    assert.strictEqual(failures[0].error, failures[1].error);
+  });
+});
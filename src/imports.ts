@@ -0,0 +1,171 @@
+import {
+  convertMotlySchema,
+  SchemaError,
+  schemaImports,
+  type ConversionOptions,
+  type ConversionResult,
+  type FieldNumberLock,
+  type ImportedSchema,
+  type SchemaImport,
+} from "./motly-to-proto.js";
+import { deriveMessageName, deriveProtoPath } from "./naming.js";
+
+/** One converted schema file of a multi-file conversion */
+export interface SchemaFile {
+  /** Path relative to the include root, as imports name it */
+  path: string;
+  /** Path of the generated .proto, as other generated files import it */
+  protoPath: string;
+  result: ConversionResult;
+}
+
+export interface SchemaFilesOptions
+  extends Omit<ConversionOptions, "lock" | "fileName" | "imports" | "allTypes" | "defaultPackageName"> {
+  /** Field numbers from a previous run of each file, by path */
+  locks?: (path: string) => FieldNumberLock | undefined;
+  /** Package of each file that has no package directive */
+  defaultPackageName?: (path: string) => string | undefined;
+}
+
+/** Outcome of converting many schema files at once */
+export interface SchemaBatch {
+  /** Every file converted, each once, imports before the files using them */
+  files: SchemaFile[];
+  /** Files that couldn't be converted; files importing one share its error */
+  failures: Array<{ path: string; error: unknown }>;
+}
+
+interface ImportState {
+  readSchema: (path: string) => string;
+  options: SchemaFilesOptions;
+  files: Map<string, SchemaFile>;
+  /** Errors of files that failed, so importing them again fails the same way */
+  errors: Map<string, unknown>;
+}
+
+/**
+ * Converts a schema and every file it imports, directly or not, into one
+ * .proto each. `readSchema` reads a file by its path relative to the include
+ * root, which is how imports name files. Files come back imports first, the
+ * entry file last.
+ *
+ * Imported files generate all of their `Types`, and a top-level message
+ * (named after the file) only if they declare fields. `packageName` and
+ * `fileOptions` apply to the entry file; imported files keep their own
+ * directives.
+ */
+export function convertMotlySchemaFiles(
+  entryPath: string,
+  messageName: string,
+  readSchema: (path: string) => string,
+  options: SchemaFilesOptions = {}
+): SchemaFile[] {
+  const state: ImportState = { readSchema, options, files: new Map(), errors: new Map() };
+  convertFile(entryPath, readSchema(entryPath), messageName, [], state);
+  return [...state.files.values()];
+}
+
+/**
+ * Converts many schema files that may import each other, such as a whole
+ * directory tree, carrying on past files that fail. Each file is converted
+ * once, the way imported files are: all of its `Types`, and a message named
+ * after the file if it declares fields.
+ */
+export function convertMotlySchemaBatch(
+  paths: string[],
+  readSchema: (path: string) => string,
+  options: SchemaFilesOptions = {}
+): SchemaBatch {
+  const state: ImportState = { readSchema, options, files: new Map(), errors: new Map() };
+  const failures: SchemaBatch["failures"] = [];
+
+  for (const path of paths) {
+    try {
+      convertFile(path, readSchema(path), undefined, [], state);
+    } catch (error) {
+      failures.push({ path, error });
+    }
+  }
+  return { files: [...state.files.values()], failures };
+}
+
+function convertFile(
+  path: string,
+  content: string,
+  messageName: string | undefined,
+  importers: string[],
+  state: ImportState
+): SchemaFile {
+  const converted = state.files.get(path);
+  if (converted) {
+    return converted;
+  }
+  if (state.errors.has(path)) {
+    throw state.errors.get(path);
+  }
+  try {
+    const file = convertNewFile(path, content, messageName, importers, state);
+    state.files.set(path, file);
+    return file;
+  } catch (error) {
+    state.errors.set(path, error);
+    throw error;
+  }
+}
+
+function convertNewFile(
+  path: string,
+  content: string,
+  messageName: string | undefined,
+  importers: string[],
+  state: ImportState
+): SchemaFile {
+  const chain = [...importers, path];
+  const imports: ImportedSchema[] = [];
+  for (const schemaImport of schemaImports(content, path)) {
+    if (chain.includes(schemaImport.path)) {
+      const cycle = [...chain.slice(chain.indexOf(schemaImport.path)), schemaImport.path];
+      throw importError(path, schemaImport, `import cycle: ${cycle.join(" -> ")}`);
+    }
+    let importedContent: string;
+    try {
+      importedContent = state.readSchema(schemaImport.path);
+    } catch (err) {
+      throw importError(
+        path,
+        schemaImport,
+        `can't read ${schemaImport.path}: ${err instanceof Error ? err.message : err}`
+      );
+    }
+    const imported = convertFile(schemaImport.path, importedContent, undefined, chain, state);
+    if (!imports.some((schema) => schema.protoPath === imported.protoPath)) {
+      imports.push({
+        protoPath: imported.protoPath,
+        packageName: imported.result.schema.packageName,
+        types: imported.result.types,
+        enums: imported.result.schema.enums.map((e) => e.name),
+      });
+    }
+  }
+
+  const { locks, packageName, fileOptions, defaultPackageName, ...conversionOptions } = state.options;
+  const isEntry = messageName !== undefined;
+  const result = convertMotlySchema(content, messageName ?? deriveMessageName(path), {
+    ...conversionOptions,
+    packageName: isEntry ? packageName : undefined,
+    fileOptions: isEntry ? fileOptions : undefined,
+    defaultPackageName: defaultPackageName?.(path),
+    lock: locks?.(path),
+    fileName: path,
+    imports,
+    allTypes: !isEntry,
+  });
+
+  return { path, protoPath: deriveProtoPath(path), result };
+}
+
+function importError(path: string, schemaImport: SchemaImport, message: string): SchemaError {
+  return new SchemaError("Import errors:", [
+    { severity: "error", message, file: path, line: schemaImport.line, column: schemaImport.column },
+  ]);
+}
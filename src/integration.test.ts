@@ -1,7 +1,6 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import protobuf from "protobufjs";
-import { motlySchemaToProto } from "./motly-to-proto.js";
+import { motlySchemaToRoot } from "./runtime.js";
 
 describe("integration: roundtrip through protobuf", () => {
   it("creates, writes, reads, and verifies a message using all features", () => {
@@ -13,9 +12,7 @@ describe("integration: roundtrip through protobuf", () => {
     // - Enums (named and inline)
     // - Nested messages (named and inline)
     // - Package directive
-    //
-    // Note: date/any/tag types are converted to string for this test
-    // because protobufjs doesn't support google well-known types
+    // - Well-known types: date, any, tag
     const schema = [
       '#! package = "test.v1"',
       "",
@@ -67,23 +64,13 @@ describe("integration: roundtrip through protobuf", () => {
       '  scores = "number[]"',
       '  tags = "Tag[]"',
       '  aliases = "string[]"',
+      "  createdAt = date",
+      "  extra = any",
+      "  metadata = tag",
       "}",
     ].join("\n");
 
-    // Convert to proto
-    const protoContent = motlySchemaToProto(schema, "TestMessage");
-
-    // protobufjs doesn't support google well-known types out of the box,
-    // so we'll create a simplified version without Timestamp/Value/Struct
-    const simplifiedProto = protoContent
-      .replace(/import "google\/protobuf\/timestamp\.proto";\n?/g, "")
-      .replace(/import "google\/protobuf\/struct\.proto";\n?/g, "")
-      .replace(/google\.protobuf\.Timestamp/g, "string")
-      .replace(/google\.protobuf\.Value/g, "string")
-      .replace(/google\.protobuf\.Struct/g, "string");
-
-    // Parse the proto from string (no file needed)
-    const root = protobuf.parse(simplifiedProto).root;
+    const root = motlySchemaToRoot(schema, "TestMessage");
     const TestMessage = root.lookupType("test.v1.TestMessage");
     const Status = root.lookupEnum("test.v1.Status");
     const Priority = root.lookupEnum("test.v1.TestMessagePriority");
@@ -114,6 +101,9 @@ describe("integration: roundtrip through protobuf", () => {
         { key: "team", value: "backend" },
       ],
       aliases: ["alias1", "alias2", "alias3"],
+      createdAt: { seconds: 1700000000, nanos: 500 },
+      extra: { stringValue: "anything" },
+      metadata: { fields: { owner: { stringValue: "platform" } } },
     };
 
     // Verify the message is valid
@@ -162,5 +152,9 @@ describe("integration: roundtrip through protobuf", () => {
     assert.strictEqual(tags[1].value, "backend");
 
     assert.deepStrictEqual(decodedObj.aliases, ["alias1", "alias2", "alias3"]);
+
+    assert.deepStrictEqual(decodedObj.createdAt, testData.createdAt);
+    assert.deepStrictEqual(decodedObj.extra, testData.extra);
+    assert.deepStrictEqual(decodedObj.metadata, testData.metadata);
   });
 });
@@ -0,0 +1,339 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { decodeMotlyData, encodeMotlyData, validateMotlyData } from "./motly-data.js";
+import { motlySchemaToProto, parseDocument, SchemaError } from "./motly-to-proto.js";
+import { loadProto } from "./runtime.js";
+
+const SCHEMA = `
+  Types: {
+    int64 = number
+    Status = [pending, active]
+    Address: {
+      Required: {
+        street = string
+        city = string
+      }
+    }
+  }
+  Required: {
+    id = int64
+    name = string
+    status = Status
+    createdAt = date
+    address = Address
+  }
+  Optional: {
+    scores = "number[]"
+    labels = "string[]"
+    settings = tag
+    extra = any
+    value: { oneOf = [string, number] }
+  }
+`;
+
+const DATA = `
+  id = 42
+  name = "Ann Lee"
+  status = active
+  createdAt = @2024-01-15T10:30:00.250Z
+  address: {
+    street = "1 Main St"
+    city = Springfield
+  }
+  scores = [1.5, 2]
+  settings: {
+    theme = dark
+    retries = 3
+  }
+  extra = [a, 1]
+  value = 7
+`;
+
+function decodeRaw(bytes: Uint8Array): Record<string, unknown> {
+  const root = loadProto(motlySchemaToProto(SCHEMA, "Config"), { keepCase: true });
+  const Config = root.lookupType("Config");
+  return Config.toObject(Config.decode(bytes), { longs: Number, enums: String });
+}
+
+describe("encodeMotlyData", () => {
+  it("converts MOTLY values to their protobuf representations", () => {
+    const decoded = decodeRaw(encodeMotlyData(SCHEMA, "Config", DATA));
+
+    assert.strictEqual(decoded.id, 42);
+    assert.strictEqual(decoded.status, "STATUS_ACTIVE");
+    assert.deepStrictEqual(decoded.created_at, { seconds: 1705314600, nanos: 250000000 });
+    assert.deepStrictEqual(decoded.address, { street: "1 Main St", city: "Springfield" });
+    assert.deepStrictEqual(decoded.scores, [1.5, 2]);
+    assert.deepStrictEqual(decoded.settings, {
+      fields: { theme: { stringValue: "dark" }, retries: { numberValue: 3 } },
+    });
+    assert.deepStrictEqual(decoded.extra, {
+      listValue: { values: [{ stringValue: "a" }, { numberValue: 1 }] },
+    });
+    assert.strictEqual(decoded.value_number, 7);
+  });
+
+  it("keeps 64-bit integers written as strings exact", () => {
+    const bytes = encodeMotlyData(SCHEMA, "Config", `id = "9007199254740993"`);
+    const root = loadProto(motlySchemaToProto(SCHEMA, "Config"), { keepCase: true });
+    const Config = root.lookupType("Config");
+
+    assert.strictEqual(Config.toObject(Config.decode(bytes), { longs: String }).id, "9007199254740993");
+  });
+
+  it("reports every problem with its location in the data", () => {
+    const data = ["name = Ann", "status = archived", "nickname = x", "scores = 3"].join("\n");
+
+    assert.throws(
+      () => encodeMotlyData(SCHEMA, "Config", data, { dataFileName: "config.motly" }),
+      (err: unknown) => {
+        assert(err instanceof SchemaError);
+        assert.deepStrictEqual(
+          err.diagnostics.map((d) => [d.line, d.path, d.message]),
+          [
+            [2, "status", 'expected one of pending, active, got "archived"'],
+            [3, "nickname", "unknown property, not a field of Config"],
+            [4, "scores", "expected a list, got 3"],
+          ]
+        );
+        assert.strictEqual(err.diagnostics[0].file, "config.motly");
+        return true;
+      }
+    );
+  });
+});
+
+describe("decodeMotlyData", () => {
+  it("round-trips a data document", () => {
+    const motly = decodeMotlyData(SCHEMA, "Config", encodeMotlyData(SCHEMA, "Config", DATA));
+
+    assert.deepStrictEqual(parseDocument(motly), parseDocument(DATA));
+  });
+
+  it("writes MOTLY text using the schema's names", () => {
+    const data = `
+      name = "Ann Lee"
+      status = pending
+      labels = [a, "b c"]
+      address: {
+        street = Main
+        city = Town
+      }
+    `;
+    const motly = decodeMotlyData(SCHEMA, "Config", encodeMotlyData(SCHEMA, "Config", data));
+
+    assert.strictEqual(
+      motly,
+      [
+        'name = "Ann Lee"',
+        "status = pending",
+        "address: {",
+        "  street = Main",
+        "  city = Town",
+        "}",
+        'labels = [a, "b c"]',
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("maps and wrapped lists", () => {
+  const schema = `
+    Types: { int64 = number }
+    Required: {
+      countsById = "map<int64, int64>"
+      tagsByUser = "map<string, string[]>"
+    }
+  `;
+
+  it("round-trips maps, including 64-bit keys and wrapped values", () => {
+    const data = "countsById: {\n  `9007199254740993` = 2\n}\ntagsByUser: {\n  ann = [a, b]\n}\n";
+    const motly = decodeMotlyData(schema, "Counts", encodeMotlyData(schema, "Counts", data));
+
+    assert.strictEqual(motly, data);
+  });
+
+  it("keeps an empty optional list apart from an unset one when lists are wrapped", () => {
+    const listSchema = `Optional: { tags = "string[]" grid = "number[][]" }`;
+    const data = "tags = []\ngrid = [\n  [1, 2],\n  []\n]\n";
+    const bytes = encodeMotlyData(listSchema, "Lists", data, { wrapOptionalLists: true });
+
+    assert.strictEqual(decodeMotlyData(listSchema, "Lists", bytes, { wrapOptionalLists: true }), data);
+  });
+
+  it("checks keys and values", () => {
+    const problems = validateMotlyData(schema, "Counts", "countsById: { one = 1 `2` = x }\ntagsByUser = [a]");
+
+    assert.deepStrictEqual(
+      problems.map((d) => [d.path, d.message]),
+      [
+        ["countsById.2", 'expected an integer, got "x"'],
+        [
+          "countsById.one",
+          'expected a key of an integer between -9223372036854775808 and 9223372036854775807 for int64, got "one"',
+        ],
+        ["tagsByUser", "expected a block of entries, got a list"],
+      ]
+    );
+  });
+});
+
+describe("richer scalar types", () => {
+  const schema = `
+    Required: {
+      data = bytes
+      timeout = duration
+      birthday = dateonly
+      opensAt = timeofday
+      rate = decimal
+      price = money
+    }
+  `;
+
+  it("round-trips bytes, durations, dates, times, decimals and money", () => {
+    const data = [
+      'data = "aGVsbG8="',
+      "timeout = 1.5",
+      "birthday = @2024-01-15",
+      'opensAt = "09:30:05.25"',
+      'rate = "0.10000000000000000001"',
+      "price: {",
+      "  currency = USD",
+      "  amount = -12.34",
+      "}",
+      "",
+    ].join("\n");
+    const motly = decodeMotlyData(schema, "Shop", encodeMotlyData(schema, "Shop", data));
+
+    assert.strictEqual(motly, data);
+  });
+
+  it("checks their formats", () => {
+    const data = 'data = "!!"\ntimeout = "2m"\nbirthday = @2024-01-15T10:00:00Z\nprice: { currency = usd }';
+    const problems = validateMotlyData(schema, "Shop", `${data}\nopensAt = "25:00"\nrate = abc`);
+
+    assert.deepStrictEqual(
+      problems.map((d) => [d.path, d.message]),
+      [
+        ["data", 'expected a base64 string, got "!!"'],
+        ["timeout", 'expected a number of seconds or a string such as "1.5s", got "2m"'],
+        ["birthday", "expected a date without a time, got a date"],
+        ["price.currency", 'expected a three-letter currency code, got "usd"'],
+        ["opensAt", 'expected a time of day such as "14:30" or "14:30:05.25", got "25:00"'],
+        ["rate", 'expected a number or a decimal string, got "abc"'],
+      ]
+    );
+  });
+});
+
+describe("wrapper types", () => {
+  it("round-trips wrapped scalars, keeping the presence of default values", () => {
+    const schema = `Types: { int64 = number }\nOptional: { name = string count = int64 active = boolean }`;
+    const data = 'name = ""\ncount = "9007199254740993"\nactive = @false\n';
+    const bytes = encodeMotlyData(schema, "Item", data, { wrapOptionalScalars: true });
+
+    assert.strictEqual(decodeMotlyData(schema, "Item", bytes, { wrapOptionalScalars: true }), data);
+  });
+
+  it("round-trips optional enums held in their own wrapper", () => {
+    const schema = `Types: { Status = [open, closed] }\nOptional: { status = Status }`;
+    const data = "status = closed\n";
+    const bytes = encodeMotlyData(schema, "Item", data, { wrapOptionalScalars: true });
+
+    assert.strictEqual(decodeMotlyData(schema, "Item", bytes, { wrapOptionalScalars: true }), data);
+  });
+});
+
+describe("validateMotlyData", () => {
+  const schema = `
+    Types: {
+      int32 = number
+      uint64 = number
+      Status = [pending, active]
+      Item: {
+        Required: {
+          sku = string
+          quantity = int32
+        }
+      }
+    }
+    Required: {
+      id = uint64
+      status = Status
+      items = "Item[]"
+    }
+    Optional: {
+      notes = "string[]"
+    }
+  `;
+
+  function problems(data: string) {
+    return validateMotlyData(schema, "Order", data).map((d) => [d.line, d.path, d.message]);
+  }
+
+  it("accepts conforming data", () => {
+    const data = `
+      id = 1
+      status = active
+      items = [
+        {
+          sku = A1
+          quantity = 2
+        }
+      ]
+    `;
+
+    assert.deepStrictEqual(problems(data), []);
+  });
+
+  it("reports missing required fields, including in nested messages", () => {
+    const data = ["status = pending", "items = [", "  {", "    sku = A1", "  }", "]"].join("\n");
+
+    assert.deepStrictEqual(problems(data), [
+      [1, "id", "missing required field of Order"],
+      [2, "items.0.quantity", "missing required field of Item"],
+    ]);
+  });
+
+  it("checks numeric ranges of integer aliases", () => {
+    const data = [
+      "id = -1",
+      "status = active",
+      "items = [",
+      "  {",
+      "    sku = A1",
+      "    quantity = 3000000000",
+      "  }",
+      "]",
+    ].join("\n");
+
+    assert.deepStrictEqual(problems(data), [
+      [1, "id", "expected an integer between 0 and 18446744073709551615 for uint64, got -1"],
+      [6, "items.0.quantity", "expected an integer between -2147483648 and 2147483647 for int32, got 3000000000"],
+    ]);
+  });
+
+  it("checks list elements and enum values", () => {
+    const data = ["id = 1", "status = done", "items = []", "notes = [a, @true]"].join("\n");
+
+    assert.deepStrictEqual(problems(data), [
+      [2, "status", 'expected one of pending, active, got "done"'],
+      [4, "notes.1", "expected a string, got true"],
+    ]);
+  });
+
+  it("rejects a number where a string is expected", () => {
+    const data = ["id = 1", "status = active", "items = [", "  {", "    sku = 5", "    quantity = 1", "  }", "]"];
+
+    assert.deepStrictEqual(problems(data.join("\n")), [[5, "items.0.sku", "expected a string, got 5"]]);
+    assert.throws(() => encodeMotlyData(schema, "Order", data.join("\n")), SchemaError);
+  });
+
+  it("returns syntax errors in the data as diagnostics", () => {
+    const diagnostics = validateMotlyData(schema, "Order", "id = = 1");
+
+    assert.strictEqual(diagnostics.length, 1);
+    assert.strictEqual(diagnostics[0].severity, "error");
+  });
+});
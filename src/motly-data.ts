@@ -0,0 +1,716 @@
+import protobuf from "protobufjs";
+import { loadProto } from "./runtime.js";
+import {
+  convertMotlySchema,
+  parseDocument,
+  SchemaError,
+  type ConversionOptions,
+  type Diagnostic,
+  type ProtoEnum,
+  type ProtoField,
+  type ProtoMessage,
+  type ProtoSchema,
+} from "./motly-to-proto.js";
+import { findLocation, locateKeys } from "./source-locations.js";
+
+export interface DataOptions extends ConversionOptions {
+  /** Used as the `file` of diagnostics about the data document */
+  dataFileName?: string;
+}
+
+const INT32_RANGE: [bigint, bigint] = [-(2n ** 31n), 2n ** 31n - 1n];
+const UINT32_RANGE: [bigint, bigint] = [0n, 2n ** 32n - 1n];
+const INT64_RANGE: [bigint, bigint] = [-(2n ** 63n), 2n ** 63n - 1n];
+const UINT64_RANGE: [bigint, bigint] = [0n, 2n ** 64n - 1n];
+
+// Inclusive range of each integer type
+const INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+  int32: INT32_RANGE,
+  sint32: INT32_RANGE,
+  sfixed32: INT32_RANGE,
+  uint32: UINT32_RANGE,
+  fixed32: UINT32_RANGE,
+  int64: INT64_RANGE,
+  sint64: INT64_RANGE,
+  sfixed64: INT64_RANGE,
+  uint64: UINT64_RANGE,
+  fixed64: UINT64_RANGE,
+};
+
+const LONG_TYPES = new Set(["int64", "uint64", "sint64", "fixed64", "sfixed64"]);
+
+// Scalar held by each well-known wrapper, which is written as the scalar itself
+const WRAPPED_SCALARS: Record<string, string> = {
+  "google.protobuf.DoubleValue": "double",
+  "google.protobuf.FloatValue": "float",
+  "google.protobuf.Int64Value": "int64",
+  "google.protobuf.UInt64Value": "uint64",
+  "google.protobuf.Int32Value": "int32",
+  "google.protobuf.UInt32Value": "uint32",
+  "google.protobuf.BoolValue": "bool",
+  "google.protobuf.StringValue": "string",
+  "google.protobuf.BytesValue": "bytes",
+};
+
+const FLOAT_MAX = 3.4028234663852886e38;
+
+const BARE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+const DURATION = /^-?\d+(\.\d+)?s$/;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)(:([0-5]\d)(\.(\d{1,9}))?)?$/;
+
+// Schema lookups, and problems found in the data that are located once the
+// walk is done
+interface DataContext {
+  messages: Map<string, ProtoMessage>;
+  enums: Map<string, ProtoEnum>;
+  /** Report `Required` fields that are missing; encoding doesn't need them */
+  checkRequired: boolean;
+  problems: Array<{ path: string[]; message: string }>;
+}
+
+/**
+ * Encodes a MOTLY data document as protobuf wire bytes of the schema's root
+ * message. Properties use the schema's names and enum values are written as
+ * in the schema (`status = active`); dates become Timestamps and `any`/`tag`
+ * values become Value/Struct.
+ */
+export function encodeMotlyData(
+  schemaContent: string,
+  messageName: string,
+  dataContent: string,
+  options: DataOptions = {}
+): Uint8Array {
+  const { proto, schema } = convertMotlySchema(schemaContent, messageName, options);
+  const data = parseDocument(dataContent, options.dataFileName);
+
+  const context = dataContext(schema, false);
+  const object = toMessageObject(schema.messages[0], data, [], context);
+  if (context.problems.length > 0) {
+    throw new SchemaError("Data errors:", locateDataProblems(context, dataContent, options.dataFileName));
+  }
+
+  const type = lookupRootType(proto, schema);
+  return type.encode(type.fromObject(object ?? {})).finish();
+}
+
+/**
+ * Checks a MOTLY data document against a schema: required fields are present,
+ * values have the declared types and fit numeric types' ranges, enum values
+ * are declared, and nested messages are valid. The data is read the same way
+ * `encodeMotlyData` reads it. Returns the problems found, or none if the data
+ * conforms; problems with the schema itself are thrown as a SchemaError.
+ */
+export function validateMotlyData(
+  schemaContent: string,
+  messageName: string,
+  dataContent: string,
+  options: DataOptions = {}
+): Diagnostic[] {
+  const { schema } = convertMotlySchema(schemaContent, messageName, options);
+  let data: Record<string, unknown>;
+  try {
+    data = parseDocument(dataContent, options.dataFileName);
+  } catch (err) {
+    if (err instanceof SchemaError) {
+      return err.diagnostics;
+    }
+    throw err;
+  }
+
+  const context = dataContext(schema, true);
+  toMessageObject(schema.messages[0], data, [], context);
+  return locateDataProblems(context, dataContent, options.dataFileName);
+}
+
+/**
+ * Decodes protobuf wire bytes of the schema's root message back into a MOTLY
+ * data document. Fields holding their default value are left out, as they
+ * are not distinguishable from unset ones on the wire.
+ */
+export function decodeMotlyData(
+  schemaContent: string,
+  messageName: string,
+  bytes: Uint8Array,
+  options: ConversionOptions = {}
+): string {
+  const { proto, schema } = convertMotlySchema(schemaContent, messageName, options);
+  const type = lookupRootType(proto, schema);
+  const object = type.toObject(type.decode(bytes), { longs: String, enums: String, bytes: String });
+
+  const context = dataContext(schema, false);
+  const data = fromMessageObject(schema.messages[0], object, context);
+  return formatProperties(data as Record<string, unknown>, "").join("\n") + "\n";
+}
+
+function dataContext(schema: ProtoSchema, checkRequired: boolean): DataContext {
+  return {
+    messages: new Map(schema.messages.map((m) => [m.name, m])),
+    enums: new Map(schema.enums.map((e) => [e.name, e])),
+    checkRequired,
+    problems: [],
+  };
+}
+
+function locateDataProblems(context: DataContext, dataContent: string, fileName?: string): Diagnostic[] {
+  const locations = locateKeys(dataContent);
+  return context.problems.map(({ path, message }) => ({
+    severity: "error",
+    message,
+    file: fileName,
+    ...findLocation(locations, path),
+    ...(path.length > 0 ? { path: path.join(".") } : {}),
+  }));
+}
+
+// Parsed with the proto names kept, so objects are keyed like the model
+function lookupRootType(proto: string, schema: ProtoSchema) {
+  const root = loadProto(proto, { keepCase: true });
+  const prefix = schema.packageName ? `${schema.packageName}.` : "";
+  return root.lookupType(`${prefix}${schema.messages[0].name}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// A message generated for a union type holds the whole value in one of its
+// alternatives, rather than reading it from properties
+function isUnionMessage(message: ProtoMessage): boolean {
+  return message.fields.length > 0 && message.fields.every((f) => f.oneof && f.sourceName === undefined);
+}
+
+function describeValue(value: unknown): string {
+  if (value instanceof Date) {
+    return "a date";
+  }
+  if (Array.isArray(value)) {
+    return "a list";
+  }
+  return isRecord(value) ? "a block of properties" : JSON.stringify(value);
+}
+
+function toMessageObject(
+  message: ProtoMessage,
+  value: unknown,
+  path: string[],
+  context: DataContext
+): Record<string, unknown> | undefined {
+  if (message.wrapper) {
+    const [field] = message.fields;
+    return { [field.name]: toPropertyValue(field, value, path, context) };
+  }
+  if (isUnionMessage(message)) {
+    const field = message.fields.find((f) => accepts(f.type, value, context));
+    if (!field) {
+      const types = message.fields.map((f) => f.type).join(", ");
+      context.problems.push({ path, message: `expected one of ${types}, got ${describeValue(value)}` });
+      return undefined;
+    }
+    return { [field.name]: toFieldValue(field.type, value, path, context) };
+  }
+
+  // An empty block `{}` parses as `true`
+  if (value !== true && !isRecord(value)) {
+    context.problems.push({ path, message: `expected a block of properties, got ${describeValue(value)}` });
+    return undefined;
+  }
+  const properties = value === true ? {} : value;
+
+  if (context.checkRequired) {
+    const required = new Set(message.fields.flatMap((f) => (f.required && f.sourceName ? [f.sourceName] : [])));
+    for (const name of required) {
+      if (!(name in properties)) {
+        context.problems.push({ path: [...path, name], message: `missing required field of ${message.name}` });
+      }
+    }
+  }
+
+  const object: Record<string, unknown> = {};
+  for (const [key, propertyValue] of Object.entries(properties)) {
+    const propertyPath = [...path, key];
+    const candidates = message.fields.filter((f) => f.sourceName === key);
+    if (candidates.length === 0) {
+      context.problems.push({ path: propertyPath, message: `unknown property, not a field of ${message.name}` });
+      continue;
+    }
+
+    // Union fields pick the first alternative that can hold the value
+    const field = candidates[0].oneof
+      ? candidates.find((f) => accepts(f.type, propertyValue, context))
+      : candidates[0];
+    if (!field) {
+      const types = candidates.map((f) => f.type).join(", ");
+      context.problems.push({
+        path: propertyPath,
+        message: `expected one of ${types}, got ${describeValue(propertyValue)}`,
+      });
+      continue;
+    }
+
+    object[field.name] = toPropertyValue(field, propertyValue, propertyPath, context);
+  }
+  return object;
+}
+
+// The value of a field, one element or entry at a time for lists and maps
+function toPropertyValue(field: ProtoField, value: unknown, path: string[], context: DataContext): unknown {
+  if (field.repeated) {
+    if (!Array.isArray(value)) {
+      context.problems.push({ path, message: `expected a list, got ${describeValue(value)}` });
+      return undefined;
+    }
+    return value.map((element, index) => toFieldValue(field.type, element, [...path, String(index)], context));
+  }
+  if (field.mapKey) {
+    // An empty block `{}` parses as `true`
+    if (value !== true && !isRecord(value)) {
+      context.problems.push({ path, message: `expected a block of entries, got ${describeValue(value)}` });
+      return undefined;
+    }
+    const entries = Object.entries(value === true ? {} : value).map(([key, entryValue]) => [
+      toMapKey(field.mapKey!, key, [...path, key], context),
+      toFieldValue(field.type, entryValue, [...path, key], context),
+    ]);
+    return Object.fromEntries(entries);
+  }
+  return toFieldValue(field.type, value, path, context);
+}
+
+// Map keys are property names, so integer and boolean keys are written as text
+function toMapKey(type: string, key: string, path: string[], context: DataContext): string {
+  const range = INTEGER_RANGES[type];
+  const valid =
+    type === "string" ||
+    (type === "bool" && (key === "true" || key === "false")) ||
+    (range !== undefined && /^-?\d+$/.test(key) && BigInt(key) >= range[0] && BigInt(key) <= range[1]);
+  if (!valid) {
+    const expected = type === "bool" ? "true or false" : `an integer between ${range[0]} and ${range[1]} for ${type}`;
+    context.problems.push({ path, message: `expected a key of ${expected}, got ${JSON.stringify(key)}` });
+  }
+  return key;
+}
+
+function toFieldValue(type: string, value: unknown, path: string[], context: DataContext): unknown {
+  const problem = (expected: string) => {
+    context.problems.push({ path, message: `expected ${expected}, got ${describeValue(value)}` });
+    return undefined;
+  };
+
+  switch (type) {
+    case "string":
+      return typeof value === "string" ? value : problem("a string");
+    case "bool":
+      return typeof value === "boolean" ? value : problem("@true or @false");
+    case "float":
+    case "double":
+      if (typeof value !== "number") {
+        return problem("a number");
+      }
+      return type === "float" && Math.abs(value) > FLOAT_MAX ? problem("a number in the range of float") : value;
+    case "google.protobuf.Timestamp":
+      return value instanceof Date ? toTimestamp(value) : problem("a date");
+    case "google.protobuf.Struct":
+      return value === true || isRecord(value) ? toStruct(value) : problem("a block of properties");
+    case "google.protobuf.Value":
+      return toValue(value);
+    case "bytes":
+      return typeof value === "string" && BASE64.test(value) ? value : problem("a base64 string");
+    case "google.protobuf.Duration":
+      return toDuration(value) ?? problem('a number of seconds or a string such as "1.5s"');
+    case "google.type.Date":
+      return isDateOnly(value) ? toDateOnly(value as Date) : problem("a date without a time");
+    case "google.type.TimeOfDay":
+      return toTimeOfDay(value) ?? problem('a time of day such as "14:30" or "14:30:05.25"');
+    case "google.type.Decimal": {
+      const decimal = toDecimal(value);
+      return decimal !== undefined ? { value: decimal } : problem("a number or a decimal string");
+    }
+    case "google.type.Money":
+      return toMoney(value, path, context);
+  }
+
+  const wrapped = WRAPPED_SCALARS[type];
+  if (wrapped) {
+    const scalar = toFieldValue(wrapped, value, path, context);
+    return scalar === undefined ? undefined : { value: scalar };
+  }
+
+  const range = INTEGER_RANGES[type];
+  if (range) {
+    const integer = toInteger(type, value);
+    if (integer === undefined) {
+      return problem("an integer");
+    }
+    if (integer < range[0] || integer > range[1]) {
+      return problem(`an integer between ${range[0]} and ${range[1]} for ${type}`);
+    }
+    return value;
+  }
+
+  const enumDef = context.enums.get(type);
+  if (enumDef) {
+    const enumValue = findEnumValue(enumDef, value);
+    if (!enumValue) {
+      const expected = enumDef.values.map((v) => v.sourceName ?? v.name).join(", ");
+      return problem(`one of ${expected}`);
+    }
+    return enumValue.name;
+  }
+
+  const message = context.messages.get(type);
+  if (message) {
+    return toMessageObject(message, value, path, context);
+  }
+  return problem(`a value of unsupported type ${type}`);
+}
+
+// Whether a union alternative of this type can hold the value
+function accepts(type: string, value: unknown, context: DataContext): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "bool":
+      return typeof value === "boolean";
+    case "float":
+    case "double":
+      return typeof value === "number";
+    case "google.protobuf.Timestamp":
+      return value instanceof Date;
+    case "google.protobuf.Struct":
+      return isRecord(value);
+    case "google.protobuf.Value":
+      return true;
+    case "bytes":
+      return typeof value === "string" && BASE64.test(value);
+    case "google.protobuf.Duration":
+      return toDuration(value) !== undefined;
+    case "google.type.Date":
+      return isDateOnly(value);
+    case "google.type.TimeOfDay":
+      return toTimeOfDay(value) !== undefined;
+    case "google.type.Decimal":
+      return toDecimal(value) !== undefined;
+  }
+  if (WRAPPED_SCALARS[type]) {
+    return accepts(WRAPPED_SCALARS[type], value, context);
+  }
+  const range = INTEGER_RANGES[type];
+  if (range) {
+    const integer = toInteger(type, value);
+    return integer !== undefined && integer >= range[0] && integer <= range[1];
+  }
+  const enumDef = context.enums.get(type);
+  if (enumDef) {
+    return findEnumValue(enumDef, value) !== undefined;
+  }
+  const message = context.messages.get(type);
+  if (message && isUnionMessage(message)) {
+    return message.fields.some((f) => accepts(f.type, value, context));
+  }
+  return isRecord(value);
+}
+
+// 64-bit values beyond double precision can be written as strings
+function toInteger(type: string, value: unknown): bigint | undefined {
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return BigInt(value);
+  }
+  if (LONG_TYPES.has(type) && typeof value === "string" && /^-?\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  return undefined;
+}
+
+// Values are matched as written in the schema, or by their proto name
+function findEnumValue(enumDef: ProtoEnum, value: unknown) {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+  return enumDef.values.find((v) => v.sourceName === String(value) || v.name === value);
+}
+
+function toTimestamp(date: Date): Record<string, number> {
+  const millis = date.getTime();
+  const seconds = Math.floor(millis / 1000);
+  return { seconds, nanos: (millis - seconds * 1000) * 1_000_000 };
+}
+
+// A duration is a number of seconds, or written like protobuf's JSON form: "1.5s"
+function toDuration(value: unknown): Record<string, number> | undefined {
+  const text = typeof value === "string" && DURATION.test(value) ? value.slice(0, -1) : String(value);
+  if (!(typeof value === "number" || typeof value === "string") || !DECIMAL.test(text)) {
+    return undefined;
+  }
+  const { units, nanos } = splitDecimal(text);
+  return { seconds: Number(units), nanos };
+}
+
+// Dates written without a time parse as midnight UTC
+function isDateOnly(value: unknown): boolean {
+  return value instanceof Date && value.getTime() % 86_400_000 === 0;
+}
+
+function toDateOnly(date: Date): Record<string, number> {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function toTimeOfDay(value: unknown): Record<string, number> | undefined {
+  const match = typeof value === "string" ? TIME_OF_DAY.exec(value) : null;
+  if (!match) {
+    return undefined;
+  }
+  const [, hours, minutes, , seconds = "0", , fraction = ""] = match;
+  return {
+    hours: Number(hours),
+    minutes: Number(minutes),
+    seconds: Number(seconds),
+    nanos: Number(fraction.padEnd(9, "0")),
+  };
+}
+
+// Decimals are kept as text so they aren't rounded through a double
+function toDecimal(value: unknown): string | undefined {
+  const text = typeof value === "number" || typeof value === "string" ? String(value) : "";
+  return DECIMAL.test(text) ? text : undefined;
+}
+
+// Money is a block of a currency code and an amount: { currency = USD amount = 12.34 }
+function toMoney(value: unknown, path: string[], context: DataContext): Record<string, unknown> | undefined {
+  if (!isRecord(value) || Object.keys(value).some((key) => key !== "currency" && key !== "amount")) {
+    context.problems.push({ path, message: `expected a block of currency and amount, got ${describeValue(value)}` });
+    return undefined;
+  }
+  const { currency, amount = 0 } = value;
+  if (typeof currency !== "string" || !/^[A-Z]{3}$/.test(currency)) {
+    const message = `expected a three-letter currency code, got ${describeValue(currency)}`;
+    context.problems.push({ path: [...path, "currency"], message });
+    return undefined;
+  }
+  const decimal = toDecimal(amount);
+  if (decimal === undefined || !/^-?\d+(\.\d{1,9})?$/.test(decimal)) {
+    const message = `expected an amount with at most 9 decimal places, got ${describeValue(amount)}`;
+    context.problems.push({ path: [...path, "amount"], message });
+    return undefined;
+  }
+  const { units, nanos } = splitDecimal(decimal);
+  return { currencyCode: currency, units, nanos };
+}
+
+// Whole units and nanos of a decimal, both carrying its sign as protobuf
+// expects; digits beyond nanos are dropped
+function splitDecimal(decimal: string): { units: string; nanos: number } {
+  const negative = decimal.startsWith("-");
+  const [whole, fraction = ""] = decimal.replace(/^-/, "").split(".");
+  const nanos = Number(fraction.slice(0, 9).padEnd(9, "0"));
+  return { units: negative && whole !== "0" ? `-${whole}` : whole, nanos: negative ? -nanos : nanos };
+}
+
+function toStruct(value: Record<string, unknown> | true): Record<string, unknown> {
+  const fields = value === true ? {} : value;
+  return { fields: Object.fromEntries(Object.entries(fields).map(([key, v]) => [key, toValue(v)])) };
+}
+
+function toValue(value: unknown): Record<string, unknown> {
+  if (typeof value === "number") {
+    return { numberValue: value };
+  }
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (value instanceof Date) {
+    return { stringValue: value.toISOString() };
+  }
+  if (Array.isArray(value)) {
+    return { listValue: { values: value.map(toValue) } };
+  }
+  if (isRecord(value)) {
+    return { structValue: toStruct(value) };
+  }
+  return { stringValue: String(value) };
+}
+
+function fromMessageObject(
+  message: ProtoMessage,
+  object: Record<string, unknown>,
+  context: DataContext
+): unknown {
+  if (message.wrapper) {
+    const [field] = message.fields;
+    return fromPropertyValue(field, object[field.name] ?? (field.repeated ? [] : {}), context);
+  }
+  if (isUnionMessage(message)) {
+    const field = message.fields.find((f) => object[f.name] !== undefined);
+    return field ? fromFieldValue(field.type, object[field.name], context) : {};
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const field of message.fields) {
+    const value = object[field.name];
+    if (value === undefined) {
+      continue;
+    }
+    data[field.sourceName ?? field.name] = fromPropertyValue(field, value, context);
+  }
+  return data;
+}
+
+function fromPropertyValue(field: ProtoField, value: unknown, context: DataContext): unknown {
+  if (field.repeated) {
+    return (value as unknown[]).map((element) => fromFieldValue(field.type, element, context));
+  }
+  if (field.mapKey) {
+    const entries = Object.entries(value as Record<string, unknown>).map(([key, entryValue]) => [
+      fromMapKey(field.mapKey!, key),
+      fromFieldValue(field.type, entryValue, context),
+    ]);
+    return Object.fromEntries(entries);
+  }
+  return fromFieldValue(field.type, value, context);
+}
+
+// protobufjs keys maps of 64-bit integers by the 8-character hash of the bits
+function fromMapKey(type: string, key: string): string {
+  if (!LONG_TYPES.has(type)) {
+    return key;
+  }
+  const unsigned = type === "uint64" || type === "fixed64";
+  return protobuf.util.LongBits.fromHash(key).toLong(unsigned).toString();
+}
+
+function fromFieldValue(type: string, value: unknown, context: DataContext): unknown {
+  switch (type) {
+    case "google.protobuf.Timestamp": {
+      const { seconds, nanos } = value as { seconds?: string; nanos?: number };
+      return new Date(Number(seconds ?? 0) * 1000 + Math.floor((nanos ?? 0) / 1_000_000));
+    }
+    case "google.protobuf.Struct":
+      return fromStruct(value as Record<string, unknown>);
+    case "google.protobuf.Value":
+      return fromValue(value as Record<string, unknown>);
+    case "google.protobuf.Duration": {
+      const { seconds, nanos } = value as { seconds?: string; nanos?: number };
+      return fromDecimal(joinDecimal(seconds ?? "0", nanos ?? 0));
+    }
+    case "google.type.Date": {
+      const { year = 0, month = 1, day = 1 } = value as { year?: number; month?: number; day?: number };
+      return new Date(Date.UTC(year, month - 1, day));
+    }
+    case "google.type.TimeOfDay":
+      return fromTimeOfDay(value as Record<string, number | undefined>);
+    case "google.type.Decimal":
+      return fromDecimal((value as { value?: string }).value ?? "0");
+    case "google.type.Money": {
+      const { currencyCode, units, nanos } = value as { currencyCode?: string; units?: string; nanos?: number };
+      return { currency: currencyCode ?? "", amount: fromDecimal(joinDecimal(units ?? "0", nanos ?? 0)) };
+    }
+  }
+
+  // Default values aren't written, so an empty wrapper holds one
+  const wrapped = WRAPPED_SCALARS[type];
+  if (wrapped) {
+    const scalar = (value as { value?: unknown }).value;
+    const empty = wrapped === "string" || wrapped === "bytes" ? "" : wrapped === "bool" ? false : 0;
+    return fromFieldValue(wrapped, scalar ?? empty, context);
+  }
+
+  // Longs are decoded as strings; keep them exact when a number can't be
+  if (LONG_TYPES.has(type)) {
+    const num = Number(value);
+    return Number.isSafeInteger(num) ? num : value;
+  }
+
+  const enumDef = context.enums.get(type);
+  if (enumDef) {
+    return enumDef.values.find((v) => v.name === value)?.sourceName ?? value;
+  }
+
+  const message = context.messages.get(type);
+  if (message) {
+    return fromMessageObject(message, value as Record<string, unknown>, context);
+  }
+  return value;
+}
+
+function fromTimeOfDay({ hours = 0, minutes = 0, seconds = 0, nanos = 0 }: Record<string, number | undefined>) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const time = `${pad(hours)}:${pad(minutes)}`;
+  if (seconds === 0 && nanos === 0) {
+    return time;
+  }
+  const fraction = nanos === 0 ? "" : `.${String(nanos).padStart(9, "0").replace(/0+$/, "")}`;
+  return `${time}:${pad(seconds)}${fraction}`;
+}
+
+function joinDecimal(units: string, nanos: number): string {
+  const negative = units.startsWith("-") || nanos < 0;
+  const fraction = String(Math.abs(nanos)).padStart(9, "0").replace(/0+$/, "");
+  return `${negative ? "-" : ""}${units.replace(/^-/, "")}${fraction ? `.${fraction}` : ""}`;
+}
+
+// A number when it reads back the same, otherwise the exact text
+function fromDecimal(decimal: string): number | string {
+  const num = Number(decimal);
+  return String(num) === decimal ? num : decimal;
+}
+
+function fromStruct(struct: Record<string, unknown>): Record<string, unknown> {
+  const fields = (struct.fields ?? {}) as Record<string, Record<string, unknown>>;
+  return Object.fromEntries(Object.entries(fields).map(([key, v]) => [key, fromValue(v)]));
+}
+
+function fromValue(value: Record<string, unknown>): unknown {
+  if (value.listValue !== undefined) {
+    const { values = [] } = value.listValue as { values?: Array<Record<string, unknown>> };
+    return values.map(fromValue);
+  }
+  if (value.structValue !== undefined) {
+    return fromStruct(value.structValue as Record<string, unknown>);
+  }
+  if (value.nullValue !== undefined) {
+    throw new Error("null values can't be written as MOTLY");
+  }
+  return value.numberValue ?? value.stringValue ?? value.boolValue;
+}
+
+function formatProperties(data: Record<string, unknown>, indent: string): string[] {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    const name = BARE_NAME.test(key) ? key : `\`${key}\``;
+    if (isRecord(value)) {
+      lines.push(`${indent}${name}: {`, ...formatProperties(value, `${indent}  `), `${indent}}`);
+    } else {
+      lines.push(`${indent}${name} = ${formatValue(value, indent)}`);
+    }
+  }
+  return lines;
+}
+
+// Lists of scalars stay on one line; lists holding blocks or lists get one
+// element per line
+function formatValue(value: unknown, indent: string): string {
+  if (Array.isArray(value)) {
+    if (!value.some((element) => isRecord(element) || Array.isArray(element))) {
+      return `[${value.map((element) => formatValue(element, indent)).join(", ")}]`;
+    }
+    const inner = `${indent}  `;
+    const elements = value.map((element) =>
+      isRecord(element)
+        ? [`${inner}{`, ...formatProperties(element, `${inner}  `), `${inner}}`].join("\n")
+        : `${inner}${formatValue(element, inner)}`
+    );
+    return `[\n${elements.join(",\n")}\n${indent}]`;
+  }
+  if (value instanceof Date) {
+    return isDateOnly(value) ? `@${value.toISOString().slice(0, 10)}` : `@${value.toISOString()}`;
+  }
+  if (typeof value === "boolean") {
+    return value ? "@true" : "@false";
+  }
+  if (typeof value === "string") {
+    return BARE_NAME.test(value) ? value : JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -1,6 +1,13 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import { motlySchemaToProto } from "./motly-to-proto.js";
+import {
+  convertMotlySchema,
+  motlySchemaToProto,
+  formatDiagnostic,
+  parseLockFile,
+  SchemaError,
+  serializeLockFile,
+} from "./motly-to-proto.js";
 
 describe("motlySchemaToProto", () => {
   it("converts basic scalar types", () => {
@@ -32,6 +39,38 @@ describe("motlySchemaToProto", () => {
     assert(proto.includes("google.protobuf.Timestamp created_at = 1;"));
   });
 
+  it("converts bytes, durations, dates, times, decimals and money", () => {
+    const schema = `
+      Required: {
+        data = bytes
+        timeout = duration
+        birthday = dateonly
+        opensAt = timeofday
+        rate = decimal
+        price = money
+      }
+    `;
+    const proto = motlySchemaToProto(schema, "Rich");
+
+    assert(
+      proto.includes(
+        [
+          'import "google/protobuf/duration.proto";',
+          'import "google/type/date.proto";',
+          'import "google/type/timeofday.proto";',
+          'import "google/type/decimal.proto";',
+          'import "google/type/money.proto";',
+        ].join("\n")
+      )
+    );
+    assert(proto.includes("bytes data = 1;"));
+    assert(proto.includes("google.protobuf.Duration timeout = 2;"));
+    assert(proto.includes("google.type.Date birthday = 3;"));
+    assert(proto.includes("google.type.TimeOfDay opens_at = 4;"));
+    assert(proto.includes("google.type.Decimal rate = 5;"));
+    assert(proto.includes("google.type.Money price = 6;"));
+  });
+
   it("converts optional fields", () => {
     const schema = `
       Optional: {
@@ -275,7 +314,7 @@ describe("motlySchemaToProto", () => {
     assert(proto.includes("package multi.v1;"));
   });
 
-  it("handles union types as Value", () => {
+  it("handles union types as oneof", () => {
     const schema = `
       Types: {
         StringOrNumber: {
@@ -288,7 +327,14 @@ describe("motlySchemaToProto", () => {
     `;
     const proto = motlySchemaToProto(schema, "Test");
 
-    assert(proto.includes("google.protobuf.Value value = 1;"));
+    assert(proto.includes("  oneof value {\n    string value_string = 1;\n    double value_number = 2;\n  }"));
+    assert(!proto.includes("message StringOrNumber"));
+  });
+
+  it("lets fields refer to the root message", () => {
+    const proto = motlySchemaToProto('Required: { id = string children = "Node[]" }', "Node");
+
+    assert(proto.includes("message Node {\n  string id = 1;\n  repeated Node children = 2;\n}"));
   });
 
   it("namespaces inline enums by parent message", () => {
@@ -322,3 +368,1192 @@ describe("motlySchemaToProto", () => {
     assert.strictEqual(matches?.length, 1);
   });
 });
+
+describe("file options", () => {
+  it("writes option directives after the imports", () => {
+    const schema = [
+      '#! package = "shop.v1"',
+      '#! go_package = "example.com/shop/v1;shopv1"',
+      "#! java_multiple_files = @true",
+      "#! optimize_for = CODE_SIZE",
+      "Required: {",
+      "  placedAt = date",
+      "}",
+    ].join("\n");
+    const { proto, schema: model } = convertMotlySchema(schema, "Order");
+
+    assert.strictEqual(
+      proto,
+      [
+        'syntax = "proto3";',
+        "",
+        "package shop.v1;",
+        "",
+        'import "google/protobuf/timestamp.proto";',
+        "",
+        'option go_package = "example.com/shop/v1;shopv1";',
+        "option java_multiple_files = true;",
+        "option optimize_for = CODE_SIZE;",
+        "",
+        "message Order {",
+        "  google.protobuf.Timestamp placed_at = 1;",
+        "}",
+        "",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(model.options, {
+      go_package: "example.com/shop/v1;shopv1",
+      java_multiple_files: true,
+      optimize_for: "CODE_SIZE",
+    });
+  });
+
+  it("derives options from the package, under directives and options", () => {
+    const schema = [
+      '#! package = "acme.billing.v1"',
+      "#! derive_file_options = @true",
+      '#! java_package = "io.acme.billing"',
+      "Required: { id = string }",
+    ].join("\n");
+    const { schema: model } = convertMotlySchema(schema, "Invoice", {
+      fileName: "invoice.motly",
+      fileOptions: { csharp_namespace: "Acme.Billing" },
+    });
+
+    assert.deepStrictEqual(model.options, {
+      go_package: "acme/billing/v1;billingv1",
+      java_package: "io.acme.billing",
+      java_multiple_files: true,
+      java_outer_classname: "InvoiceProto",
+      csharp_namespace: "Acme.Billing",
+      objc_class_prefix: "ABX",
+      php_namespace: "Acme\\Billing\\V1",
+      ruby_package: "Acme::Billing::V1",
+    });
+  });
+
+  it("reports invalid directives where they are written", () => {
+    const schema = ['#! package = "shop.v1"', '#! objc_class_prefix = "shp"', "Required: { id = string }"].join(
+      "\n"
+    );
+
+    assert.throws(
+      () => convertMotlySchema(schema, "Order", { fileName: "order.motly" }),
+      (err: unknown) => {
+        assert(err instanceof SchemaError);
+        assert.deepStrictEqual(
+          err.diagnostics.map(formatDiagnostic),
+          ['order.motly:2:4: error: objc_class_prefix must be uppercase letters and digits, got "shp"']
+        );
+        return true;
+      }
+    );
+    assert.throws(
+      () => convertMotlySchema(schema.replace('"shp"', '"SHP"'), "Order", { fileOptions: { go_package: "a b" } }),
+      /go_package must be an import path/
+    );
+  });
+});
+
+describe("comments", () => {
+  it("carries leading comments over as doc comments", () => {
+    const schema = [
+      "# A customer order",
+      "",
+      "Types: {",
+      "  # Where an order is in its lifecycle",
+      "  Status = [",
+      "    # Not paid yet",
+      "    pending,",
+      "    shipped",
+      "  ]",
+      "}",
+      "Required: {",
+      "  # Current status",
+      "  #",
+      "  # Updated by the warehouse",
+      "  status = Status",
+      "  # Amount or free text",
+      "  total: { oneOf = [number, string] }",
+      "  note = string # trailing comments are left out",
+      "}",
+    ].join("\n");
+
+    assert.strictEqual(
+      motlySchemaToProto(schema, "Order"),
+      [
+        'syntax = "proto3";',
+        "",
+        "// Where an order is in its lifecycle",
+        "enum Status {",
+        "  STATUS_UNSPECIFIED = 0;",
+        "  // Not paid yet",
+        "  STATUS_PENDING = 1;",
+        "  STATUS_SHIPPED = 2;",
+        "}",
+        "",
+        "// A customer order",
+        "message Order {",
+        "  // Current status",
+        "  //",
+        "  // Updated by the warehouse",
+        "  Status status = 1;",
+        "  // Amount or free text",
+        "  oneof total {",
+        "    double total_number = 2;",
+        "    string total_string = 3;",
+        "  }",
+        "  string note = 4;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("documents an inline type's field, not the generated type", () => {
+    const schema = ["Required: {", "  # Shipping address", "  address: {", "    Required: { city = string }", "  }", "}"];
+    const { schema: model } = convertMotlySchema(schema.join("\n"), "Order");
+
+    assert.strictEqual(model.messages[0].fields[0].comment, "Shipping address");
+    assert.strictEqual(model.messages[1].comment, undefined);
+  });
+});
+
+describe("field number lock", () => {
+  it("records field and enum value numbers", () => {
+    const schema = `
+      Types: {
+        Status = [pending, active]
+      }
+      Required: {
+        id = string
+        status = Status
+      }
+    `;
+    const { lock } = convertMotlySchema(schema, "User");
+
+    assert.deepStrictEqual(lock.messages.User.numbers, { id: 1, status: 2 });
+    assert.deepStrictEqual(lock.enums.Status.numbers, {
+      STATUS_PENDING: 1,
+      STATUS_ACTIVE: 2,
+    });
+  });
+
+  it("keeps numbers stable when fields are inserted or moved", () => {
+    const v1 = `
+      Required: {
+        id = string
+        name = string
+      }
+      Optional: {
+        email = string
+      }
+    `;
+    const v2 = `
+      Required: {
+        id = string
+        email = string
+        createdAt = date
+      }
+      Optional: {
+        name = string
+      }
+    `;
+    const { lock } = convertMotlySchema(v1, "User");
+    const proto = motlySchemaToProto(v2, "User", { lock });
+
+    assert(proto.includes("string id = 1;"));
+    assert(proto.includes("string email = 3;"));
+    assert(proto.includes("google.protobuf.Timestamp created_at = 4;"));
+    assert(proto.includes("optional string name = 2;"));
+  });
+
+  it("never reuses the numbers of removed fields", () => {
+    const v1 = `
+      Required: {
+        id = string
+        legacy = string
+      }
+    `;
+    const v2 = `
+      Required: {
+        id = string
+        replacement = string
+      }
+    `;
+    const { lock: lock1 } = convertMotlySchema(v1, "User");
+    const { proto, lock: lock2 } = convertMotlySchema(v2, "User", { lock: lock1 });
+
+    assert(proto.includes("string replacement = 3;"));
+    assert.deepStrictEqual(lock2.messages.User.removed, { legacy: 2 });
+  });
+
+  it("appends new enum values after existing ones", () => {
+    const v1 = `
+      Types: { Status = [pending, active, completed] }
+      Required: { status = Status }
+    `;
+    const v2 = `
+      Types: { Status = [pending, active, archived, completed] }
+      Required: { status = Status }
+    `;
+    const { lock } = convertMotlySchema(v1, "Test");
+    const proto = motlySchemaToProto(v2, "Test", { lock });
+
+    assert(proto.includes("STATUS_COMPLETED = 3;"));
+    assert(proto.includes("STATUS_ARCHIVED = 4;"));
+  });
+
+  it("round-trips through the serialized form", () => {
+    const schema = `
+      Required: {
+        id = string
+        nested = tag { Required: { value = number } }
+      }
+    `;
+    const { lock } = convertMotlySchema(schema, "Test");
+
+    assert.deepStrictEqual(parseLockFile(serializeLockFile(lock)), lock);
+  });
+
+  it("rejects malformed lock files", () => {
+    assert.throws(() => parseLockFile('{"version": 2}'), /expected version 1/);
+    assert.throws(
+      () => parseLockFile('{"version": 1, "messages": {"A": {"numbers": {"x": "one"}}}}'),
+      /messages\.A\.numbers\.x must be a non-negative integer/
+    );
+  });
+});
+
+describe("annotations", () => {
+  it("writes deprecated, json_name and pinned numbers", () => {
+    const schema = [
+      "Types: {",
+      "  int64 = number",
+      "  Status = [active, legacy { deprecated number=5 }, closed]",
+      "}",
+      "Required: {",
+      "  id = string",
+      "  legacyId = int64 { deprecated number=12 }",
+      '  userName = string { json_name="user" }',
+      "  status = Status",
+      "}",
+    ].join("\n");
+    const proto = motlySchemaToProto(schema, "Account");
+
+    assert(proto.includes("  STATUS_LEGACY = 5 [deprecated = true];\n  STATUS_CLOSED = 2;"));
+    assert(proto.includes("  int64 legacy_id = 12 [deprecated = true];"));
+    assert(proto.includes('  string user_name = 2 [json_name = "user"];'));
+    assert(proto.includes("  Status status = 3;"));
+  });
+
+  it("marks every alternative of a deprecated union", () => {
+    const proto = motlySchemaToProto("Required: { value = tag { oneOf = [string, number] } }", "Test");
+    assert(!proto.includes("deprecated"));
+
+    const deprecated = motlySchemaToProto(
+      "Types: { StringOrNumber: { oneOf = [string, number] } }\nRequired: { value = StringOrNumber { deprecated } }",
+      "Test"
+    );
+    assert(deprecated.includes("    string value_string = 1 [deprecated = true];"));
+    assert(deprecated.includes("    double value_number = 2 [deprecated = true];"));
+  });
+
+  it("lets a pinned number override the lock, reserving the old one", () => {
+    const previous = convertMotlySchema("Required: {\n  a = string\n  b = string\n}", "Test");
+    const { proto, lock } = convertMotlySchema(
+      "Required: {\n  a = string\n  b = string { number=10 }\n  c = string\n}",
+      "Test",
+      { lock: previous.lock }
+    );
+
+    assert(proto.includes("  string a = 1;\n  string b = 10;\n  string c = 3;\n  reserved 2;"));
+    assert(!proto.includes('reserved "b"'));
+    assert.deepStrictEqual(lock.messages.Test, { numbers: { a: 1, b: 10, c: 3 }, removed: { "b@2": 2 } });
+
+    const next = "Required: {\n  a = string\n  b = string { number=10 }\n  d = string { number=2 }\n}";
+    assert.throws(
+      () => convertMotlySchema(next, "Test", { lock }),
+      /Test\.d: number 2 is already used by the old number of b in the lock file/
+    );
+    const removed = convertMotlySchema("Required: { a = string }", "Test", { lock });
+    assert(removed.proto.includes('  reserved 2 to 3, 10;\n  reserved "b", "c";'));
+  });
+
+  it("rejects pinned numbers that are out of range, shared or taken", () => {
+    const previous = convertMotlySchema("Required: {\n  a = string\n  gone = string\n}", "Test");
+    const schema = [
+      "Required: {",
+      "  a = string",
+      "  b = string { number=19000 }",
+      "  c = string { number=0 }",
+      "  d = string { number=7 }",
+      "  e = string { number=7 }",
+      "  f = string { number=2 }",
+      '  g = string { json_name="a" }',
+      "  h = string { hidden }",
+      "}",
+    ].join("\n");
+
+    assert.throws(
+      () => convertMotlySchema(schema, "Test", { lock: previous.lock, fileName: "test.motly" }),
+      (err: unknown) => {
+        assert(err instanceof SchemaError);
+        assert.deepStrictEqual(err.diagnostics.map(formatDiagnostic), [
+          "test.motly:3:3: error: Test.b: number 19000 is in the range 19000-19999 reserved by protobuf",
+          "test.motly:4:3: error: Test.c: number must be between 1 and 536870911, got 0",
+          "test.motly:6:3: error: Test.e: number 7 is also pinned by d",
+          "test.motly:7:3: error: Test.f: number 2 is already used by gone in the lock file",
+          'test.motly:8:3: error: Test.g: JSON name "a" is also the JSON name of a',
+          'test.motly:9:3: error: Test.h: unknown annotation "hidden", expected one of "deprecated", "json_name", ' +
+            '"number", "min", "max", "min_length", "max_length", "pattern", "min_items", "max_items"',
+        ]);
+        return true;
+      }
+    );
+  });
+});
+
+describe("validate", () => {
+  const schema = [
+    "Types: {",
+    "  int32 = number",
+    "  Status = [open, closed]",
+    "}",
+    "Required: {",
+    '  name = string { min_length=1 pattern="^[a-z]+$" }',
+    "  age = int32 { min=0 max=150 }",
+    "  status = Status",
+    '  tags = "string[]" { min_items=1 max_items=10 max_length=20 }',
+    "  placedAt = date",
+    "  count = int32",
+    "  contact: { oneOf = [string, Status] }",
+    "}",
+    "Optional: { previous = Status }",
+  ].join("\n");
+
+  it("annotates fields with protovalidate constraints", () => {
+    const proto = motlySchemaToProto(schema, "Order", { validate: true });
+
+    assert(proto.includes('import "google/protobuf/timestamp.proto";\nimport "buf/validate/validate.proto";\n'));
+    assert(proto.includes("  int32 age = 2 [(buf.validate.field).int32.gte = 0, (buf.validate.field).int32.lte = 150];"));
+    assert(
+      proto.includes(
+        [
+          "  Status status = 3 [",
+          "    (buf.validate.field).required = true,",
+          "    (buf.validate.field).enum.defined_only = true",
+          "  ];",
+        ].join("\n")
+      )
+    );
+    assert(
+      proto.includes(
+        [
+          "  repeated string tags = 4 [",
+          "    (buf.validate.field).repeated.min_items = 1,",
+          "    (buf.validate.field).repeated.max_items = 10,",
+          "    (buf.validate.field).repeated.items.string.max_len = 20",
+          "  ];",
+        ].join("\n")
+      )
+    );
+    assert(proto.includes("  google.protobuf.Timestamp placed_at = 5 [(buf.validate.field).required = true];"));
+    assert(proto.includes("  int32 count = 6;"));
+    assert(proto.includes("  oneof contact {\n    option (buf.validate.oneof).required = true;\n    string contact_string = 7;"));
+    assert(proto.includes("    Status contact_status = 8 [(buf.validate.field).enum.defined_only = true];"));
+    assert(proto.includes("  optional Status previous = 9 [(buf.validate.field).enum.defined_only = true];"));
+  });
+
+  it("is off unless asked for, by option or directive", () => {
+    const proto = motlySchemaToProto(schema, "Order");
+    assert(!proto.includes("buf.validate"));
+    assert(proto.includes("  string name = 1;"));
+
+    assert(motlySchemaToProto(`#! validate = @true\n${schema}`, "Order").includes("(buf.validate.field)"));
+  });
+
+  it("reports constraints that don't fit the field", () => {
+    const bad = [
+      "Types: { int32 = number }",
+      "Required: {",
+      "  a = string { min=1 }",
+      "  b = int32 { min=1.5 }",
+      "  c = number { min=5 max=1 }",
+      '  d = string { pattern="(" }',
+      "  e = string { min_items=1 }",
+      "}",
+    ].join("\n");
+
+    assert.throws(
+      () => convertMotlySchema(bad, "T"),
+      (err: unknown) => {
+        assert(err instanceof SchemaError);
+        assert.deepStrictEqual(err.diagnostics.map(formatDiagnostic), [
+          "3:3: error: T.a: min only applies to numbers",
+          "4:3: error: T.b: min must be a whole number for int32",
+          "5:3: error: T.c: min is greater than max",
+          '6:3: error: T.d: pattern "(" is not a valid regular expression',
+          "7:3: error: T.e: min_items only applies to lists",
+        ]);
+        return true;
+      }
+    );
+  });
+});
+
+describe("enum map form", () => {
+  it("pins every value's number", () => {
+    const schema = [
+      "Types: {",
+      "  Status: {",
+      "    pending = 1",
+      "    archived = 7",
+      "    active = 2",
+      "    completed = 5",
+      "  }",
+      "}",
+      "Required: {",
+      "  status = Status",
+      "  level: { low = 1 high = 10 }",
+      "}",
+    ].join("\n");
+    const { proto, lock } = convertMotlySchema(schema, "Task");
+
+    assert(proto.includes("  STATUS_PENDING = 1;\n  STATUS_ARCHIVED = 7;\n  STATUS_ACTIVE = 2;\n  STATUS_COMPLETED = 5;"));
+    assert(proto.includes("  TASK_LEVEL_LOW = 1;\n  TASK_LEVEL_HIGH = 10;"));
+    assert(proto.includes("  TaskLevel level = 2;"));
+    assert.deepStrictEqual(lock.enums.Status.numbers, {
+      STATUS_PENDING: 1,
+      STATUS_ARCHIVED: 7,
+      STATUS_ACTIVE: 2,
+      STATUS_COMPLETED: 5,
+    });
+  });
+
+  it("allows aliases when asked to", () => {
+    const proto = motlySchemaToProto(
+      "Types: { Mode: { allow_alias = @true started = 1 running = 1 done = 2 } }\nRequired: { mode = Mode }",
+      "Job"
+    );
+
+    assert(proto.includes("enum Mode {\n  option allow_alias = true;\n  MODE_UNSPECIFIED = 0;\n  MODE_STARTED = 1;"));
+    assert(proto.includes("  MODE_RUNNING = 1;"));
+  });
+
+  it("retires and adds aliases of a locked number", () => {
+    const schema = (values: string) => `Types: { Mode: { allow_alias = @true ${values} } }\nRequired: { mode = Mode }`;
+    const { lock } = convertMotlySchema(schema("started = 1 running = 1 done = 2"), "Job");
+    const { proto } = convertMotlySchema(schema("started = 1 begun = 1 done = 2"), "Job", { lock });
+
+    assert(proto.includes("  MODE_STARTED = 1;\n  MODE_BEGUN = 1;\n  MODE_DONE = 2;\n  reserved \"MODE_RUNNING\";\n}"));
+    assert(!proto.includes("reserved 1"));
+  });
+
+  it("reports shared numbers, needless allow_alias and missing numbers", () => {
+    assert.throws(
+      () => convertMotlySchema("Required: {\n  a: { x = 1 y = 1 }\n  b: { allow_alias = @true x = 1 y }\n}", "T"),
+      (err: unknown) => {
+        assert(err instanceof SchemaError);
+        assert.deepStrictEqual(err.diagnostics.map(formatDiagnostic), [
+          "2:14: error: T.a: number 1 is also pinned by TA_X",
+          "3:3: error: T.b: allow_alias is set but no values share a number",
+          "3:34: error: T.b: enum value y must be given a whole number",
+        ]);
+        return true;
+      }
+    );
+  });
+});
+
+describe("map fields", () => {
+  it("generates maps, wrapping nested lists and maps in shared messages", () => {
+    const { proto, lock } = convertMotlySchema(
+      `
+        Types: {
+          int64 = number
+          Address: { Required: { city = string } }
+        }
+        Required: {
+          byId = "map<int64, Address>"
+          counts = "{string: int64}"
+          tagsByUser = "map<string, string[]>"
+          aliases = "map<boolean, string[]>"
+          nested = "map<string, map<string, int64>>"
+          history = "map<string, int64>[]"
+        }
+        Optional: {
+          labels = "map<string, string>"
+        }
+      `,
+      "Test"
+    );
+
+    assert(proto.includes("  map<int64, Address> by_id = 1;"));
+    assert(proto.includes("  map<string, int64> counts = 2;"));
+    assert(proto.includes("  map<string, StringList> tags_by_user = 3;"));
+    assert(proto.includes("  map<bool, StringList> aliases = 4;"));
+    assert(proto.includes("  map<string, StringInt64Map> nested = 5;"));
+    assert(proto.includes("  repeated StringInt64Map history = 6;"));
+    assert(proto.includes("  map<string, string> labels = 7;"));
+    assert(proto.includes("message StringList {\n  repeated string values = 1;\n}"));
+    assert(proto.includes("message StringInt64Map {\n  map<string, int64> entries = 1;\n}"));
+    assert.strictEqual(proto.match(/message StringList/g)?.length, 1);
+    assert.deepStrictEqual(lock.messages.StringList.numbers, { values: 1 });
+  });
+
+  it("reports map keys proto doesn't allow", () => {
+    const schema = `
+      Types: {
+        float = number
+        Kind = [a, b]
+        Address: { Required: { city = string } }
+      }
+      Required: {
+        byAmount = "map<number, string>"
+        byRatio = "map<float, string>"
+        byKind = "map<Kind, string>"
+        byAddress = "{Address: string}"
+        choice: { oneOf = [string, "map<string, string>"] }
+      }
+    `;
+
+    assert.throws(
+      () => convertMotlySchema(schema, "Test"),
+      (err: unknown) => {
+        assert(err instanceof SchemaError);
+        assert.deepStrictEqual(
+          err.diagnostics.map((d) => d.message),
+          [
+            'map key must be a string, boolean or integer type, got "number"',
+            'map key must be a string, boolean or integer type, got "float"',
+            'map key must be a string, boolean or integer type, got "Kind"',
+            'map key must be a string, boolean or integer type, got "Address"',
+            'union alternative "map<string, string>" must be a single named type',
+          ]
+        );
+        return true;
+      }
+    );
+  });
+
+  it("puts constraints on a map's size and values", () => {
+    const proto = motlySchemaToProto(
+      `Required: { labels = "map<string, string>" { min_items=1 max_length=20 } }`,
+      "Test",
+      { validate: true }
+    );
+
+    assert(proto.includes("(buf.validate.field).map.min_pairs = 1"));
+    assert(proto.includes("(buf.validate.field).map.values.string.max_len = 20"));
+  });
+});
+
+describe("nested lists", () => {
+  it("wraps the inner lists of a list of lists", () => {
+    const proto = motlySchemaToProto(
+      `
+        Types: { int32 = number }
+        Required: {
+          grid = "int32[][]"
+          cube = "int32[][][]"
+        }
+      `,
+      "Test"
+    );
+
+    assert(proto.includes("  repeated Int32List grid = 1;"));
+    assert(proto.includes("  repeated Int32ListList cube = 2;"));
+    assert(proto.includes("message Int32List {\n  repeated int32 values = 1;\n}"));
+    assert(proto.includes("message Int32ListList {\n  repeated Int32List values = 1;\n}"));
+    assert.strictEqual(proto.match(/message Int32List \{/g)?.length, 1);
+  });
+
+  it("wraps optional lists only when asked to", () => {
+    const schema = `
+      Required: { ids = "string[]" }
+      Optional: { tags = "string[]" }
+    `;
+
+    assert(motlySchemaToProto(schema, "Test").includes("  repeated string tags = 2;"));
+    for (const proto of [
+      motlySchemaToProto(schema, "Test", { wrapOptionalLists: true }),
+      motlySchemaToProto(`#! wrap_optional_lists = @true\n${schema}`, "Test"),
+    ]) {
+      assert(proto.includes("  repeated string ids = 1;"));
+      assert(proto.includes("  optional StringList tags = 2;"));
+      assert(proto.includes("message StringList {"));
+    }
+  });
+});
+
+describe("wrapper types", () => {
+  const schema = `
+    Types: {
+      sint64 = number
+      fixed32 = number
+      Status = [open, closed]
+      Address: { Required: { city = string } }
+    }
+    Required: { id = string }
+    Optional: {
+      name = string
+      total = sint64 { min=0 }
+      size = fixed32
+      ratio = number
+      active = boolean
+      status = Status
+      tags = "string[]"
+      address = Address
+      created = date
+    }
+  `;
+
+  it("writes optional scalars as wrappers when asked to", () => {
+    assert(motlySchemaToProto(schema, "Test").includes("  optional string name = 2;"));
+    for (const proto of [
+      motlySchemaToProto(schema, "Test", { wrapOptionalScalars: true, validate: true }),
+      motlySchemaToProto(`#! wrap_optional_scalars = @true\n#! validate = @true\n${schema}`, "Test"),
+    ]) {
+      assert(proto.includes('import "google/protobuf/wrappers.proto";'));
+      assert(proto.includes("  string id = 1;"));
+      assert(proto.includes("  google.protobuf.StringValue name = 2;"));
+      assert(proto.includes("  google.protobuf.Int64Value total = 3 [(buf.validate.field).int64.gte = 0];"));
+      assert(proto.includes("  google.protobuf.UInt32Value size = 4;"));
+      assert(proto.includes("  google.protobuf.DoubleValue ratio = 5;"));
+      assert(proto.includes("  google.protobuf.BoolValue active = 6;"));
+      assert(proto.includes("  StatusValue status = 7;\n"));
+      assert(
+        proto.includes("message StatusValue {\n  Status value = 1 [(buf.validate.field).enum.defined_only = true];\n}")
+      );
+      assert(proto.includes("  repeated string tags = 8;"));
+      assert(proto.includes("  Address address = 9;"));
+      assert(proto.includes("  google.protobuf.Timestamp created = 10;"));
+      assert(!proto.includes("optional"));
+    }
+  });
+});
+
+describe("services", () => {
+  it("generates services with streaming methods and inline messages", () => {
+    const { proto, lock } = convertMotlySchema(
+      `
+        #! package = "acme.v1"
+        Types: {
+          User: { Required: { id = string } }
+        }
+        Required: { users = "User[]" }
+
+        Services: {
+          # Manages users
+          userService: {
+            getUser: {
+              input: { Required: { id = string } }
+              output = User
+            }
+            # Streams changes
+            watchUsers: { input = tag output = User stream = server }
+            importUsers: { input = User output = Directory stream = client }
+            sync: { input = User output = User stream = bidi }
+          }
+        }
+      `,
+      "Directory"
+    );
+
+    assert(proto.includes('import "google/protobuf/struct.proto";'));
+    assert(proto.includes("message GetUserRequest {\n  string id = 1;\n}"));
+    assert(
+      proto.endsWith(
+        [
+          "// Manages users",
+          "service UserService {",
+          "  rpc GetUser(GetUserRequest) returns (User);",
+          "  // Streams changes",
+          "  rpc WatchUsers(google.protobuf.Struct) returns (stream User);",
+          "  rpc ImportUsers(stream User) returns (Directory);",
+          "  rpc Sync(stream User) returns (stream User);",
+          "}",
+          "",
+        ].join("\n")
+      )
+    );
+    assert.deepStrictEqual(lock.messages.GetUserRequest.numbers, { id: 1 });
+  });
+
+  it("reports methods that don't send messages", () => {
+    const schema = `
+      Types: {
+        Kind = [a, b]
+        Empty: { Optional: { note = string } }
+      }
+      Services: {
+        Api: {
+          list: { input = Kind output = "Empty[]" }
+          get: { output = Empty stream = both timeout = 5 }
+        }
+      }
+    `;
+
+    assert.throws(
+      () => convertMotlySchema(schema, "Test"),
+      (err: unknown) => {
+        assert(err instanceof SchemaError);
+        assert.deepStrictEqual(
+          err.diagnostics.map((d) => `${d.path}: ${d.message}`),
+          [
+            'Api.List.input: input must be a message, got "Kind"',
+            'Api.List.output: output must be a message, got "Empty[]"',
+            "Api.Get: missing input",
+            'Api.Get.stream: must be client, server or bidi, got "both"',
+            "Api.Get.timeout: unknown key, expected input, output or stream",
+          ]
+        );
+        return true;
+      }
+    );
+  });
+
+  it("reports services that collide with messages", () => {
+    assert.throws(
+      () => convertMotlySchema("Types: { Api: { Required: { id = string } } }\nServices: { api: {} }", "Test"),
+      /service name "Api" of Services\.api collides with Types\.Api/
+    );
+  });
+});
+
+describe("reserved fields", () => {
+  it("reserves numbers and names of removed fields", () => {
+    const v1 = `
+      Required: {
+        id = string
+        a = string
+        b = string
+        c = string
+        d = string
+        e = string
+      }
+    `;
+    const v2 = `
+      Required: {
+        id = string
+        b = string
+      }
+    `;
+    const { lock } = convertMotlySchema(v1, "Test");
+    const proto = motlySchemaToProto(v2, "Test", { lock });
+
+    assert(proto.includes("  reserved 2, 4 to 6;"));
+    assert(proto.includes('  reserved "a", "c", "d", "e";'));
+  });
+
+  it("reserves removed enum values", () => {
+    const v1 = `
+      Types: { Status = [pending, active, completed] }
+      Required: { status = Status }
+    `;
+    const v2 = `
+      Types: { Status = [pending, completed] }
+      Required: { status = Status }
+    `;
+    const { lock } = convertMotlySchema(v1, "Test");
+    const proto = motlySchemaToProto(v2, "Test", { lock });
+
+    assert(proto.includes("  reserved 2;"));
+    assert(proto.includes('  reserved "STATUS_ACTIVE";'));
+    assert(proto.includes("STATUS_COMPLETED = 3;"));
+  });
+
+  it("un-reserves a field that is restored", () => {
+    const v1 = `
+      Required: {
+        id = string
+        legacy = string
+      }
+    `;
+    const v2 = `
+      Required: {
+        id = string
+      }
+    `;
+    const { lock: lock1 } = convertMotlySchema(v1, "Test");
+    const { lock: lock2 } = convertMotlySchema(v2, "Test", { lock: lock1 });
+    const proto = motlySchemaToProto(v1, "Test", { lock: lock2 });
+
+    assert(proto.includes("string legacy = 2;"));
+    assert(!proto.includes("reserved"));
+  });
+
+  it("emits no reserved lines without a lock", () => {
+    const proto = motlySchemaToProto("Required: { id = string }", "Test");
+
+    assert(!proto.includes("reserved"));
+  });
+});
+
+describe("union types", () => {
+  it("uses named types as oneof alternatives", () => {
+    const schema = `
+      Types: {
+        int64 = number
+        Address: {
+          Required: { street = string }
+        }
+        Contact: {
+          oneOf = [string, Address, int64]
+        }
+      }
+      Required: {
+        id = string
+        contact = Contact
+      }
+    `;
+    const proto = motlySchemaToProto(schema, "User");
+
+    assert(proto.includes("string id = 1;"));
+    assert(proto.includes("  oneof contact {"));
+    assert(proto.includes("    string contact_string = 2;"));
+    assert(proto.includes("    Address contact_address = 3;"));
+    assert(proto.includes("    int64 contact_int64 = 4;"));
+    assert(proto.includes("message Address {"));
+  });
+
+  it("names alternatives after their field, so unions of one type can share a message", () => {
+    const { proto, diagnostics } = convertMotlySchema(
+      "Types: { Place: { oneOf = [string, number] } }\nRequired: { home = Place work = Place }",
+      "User"
+    );
+
+    assert.deepStrictEqual(diagnostics, []);
+    assert(proto.includes("  oneof home {\n    string home_string = 1;\n    double home_number = 2;\n  }"));
+    assert(proto.includes("  oneof work {\n    string work_string = 3;\n    double work_number = 4;\n  }"));
+  });
+
+  it("wraps unions used as repeated elements in a message", () => {
+    const schema = `
+      Types: {
+        Scalar: {
+          oneOf = [string, number]
+        }
+      }
+      Required: {
+        values = "Scalar[]"
+      }
+    `;
+    const proto = motlySchemaToProto(schema, "Test");
+
+    assert(proto.includes("repeated Scalar values = 1;"));
+    assert(proto.includes("message Scalar {\n  oneof value {\n    string string_value = 1;"));
+  });
+
+  it("supports inline unions", () => {
+    const schema = `
+      Optional: {
+        when = tag { oneOf = [boolean, date] }
+      }
+    `;
+    const proto = motlySchemaToProto(schema, "Test");
+
+    assert(proto.includes("  oneof when {"));
+    assert(proto.includes("    bool when_boolean = 1;"));
+    assert(proto.includes("    google.protobuf.Timestamp when_date = 2;"));
+  });
+
+  it("converts a top-level union schema", () => {
+    const proto = motlySchemaToProto("oneOf = [string, number]", "Scalar");
+
+    assert(proto.includes("message Scalar {\n  oneof value {"));
+    assert(proto.includes("    double number_value = 2;"));
+  });
+
+  it("rejects repeated union alternatives", () => {
+    const schema = `
+      Types: {
+        Bad: { oneOf = ["string[]", number] }
+      }
+      Required: { value = Bad }
+    `;
+
+    assert.throws(() => motlySchemaToProto(schema, "Test"), /must be a single named type/);
+  });
+});
+
+describe("strict mode", () => {
+  it("reports every problem with its field path", () => {
+    const schema = `
+      Types: {
+        Address: {
+          Required: { zipCode = strin }
+        }
+      }
+      Required: {
+        id = int46
+        address = Address
+        count = 5
+      }
+      Optionl: {
+        note = string
+      }
+    `;
+
+    assert.throws(
+      () => motlySchemaToProto(schema, "User"),
+      (err: Error) => {
+        assert.match(err.message, /^Schema errors:/);
+        assert.match(err.message, /User\.id: unknown type "int46"/);
+        assert.match(err.message, /Address\.zipCode: unknown type "strin"/);
+        assert.match(err.message, /User\.count: unsupported value 5/);
+        assert.match(err.message, /User\.Optionl: unknown key/);
+        return true;
+      }
+    );
+  });
+
+  it("rejects aliases that are not protobuf numeric types", () => {
+    const schema = `
+      Types: { money = number }
+      Required: { price = number }
+    `;
+
+    assert.throws(() => motlySchemaToProto(schema, "Test"), /Types\.money: "money" is not a protobuf numeric type/);
+  });
+
+  it("falls back to string when strict is off", () => {
+    const schema = `
+      Required: {
+        id = int46
+      }
+    `;
+    const proto = motlySchemaToProto(schema, "Test", { strict: false });
+
+    assert(proto.includes("string id = 1;"));
+  });
+
+  it("keeps problems that would make the .proto invalid as errors", () => {
+    const schema = `
+      Required: {
+        userId = string
+        user_id = string
+        counts = "map<number, string>"
+        id = int46
+      }
+    `;
+
+    assert.throws(
+      () => convertMotlySchema(schema, "Test", { strict: false }),
+      (err: unknown) => {
+        assert(err instanceof SchemaError);
+        assert.deepStrictEqual(
+          err.diagnostics.map((d) => `${d.severity}: ${d.message}`),
+          [
+            'error: field name "user_id" of "user_id" collides with "userId"',
+            'error: map key must be a string, boolean or integer type, got "number"',
+            'warning: unknown type "int46"',
+          ]
+        );
+        return true;
+      }
+    );
+  });
+
+  it("treats a leading comment as a comment", () => {
+    const schema = [
+      "# Users of the system",
+      "Required: {",
+      "  id = string",
+      "}",
+    ].join("\n");
+    const proto = motlySchemaToProto(schema, "User");
+
+    assert(proto.includes("string id = 1;"));
+  });
+});
+
+describe("diagnostics", () => {
+  function diagnosticsOf(schema: string) {
+    try {
+      motlySchemaToProto(schema, "User", { fileName: "user.motly" });
+    } catch (err) {
+      assert(err instanceof SchemaError);
+      return err.diagnostics;
+    }
+    assert.fail("expected a SchemaError");
+  }
+
+  it("locates type errors in the original file, counting directive lines", () => {
+    const schema = [
+      '#! package = "app.v1"',
+      "Types: {",
+      "  Address: {",
+      "    Required: {",
+      "      zipCode = strin",
+      "    }",
+      "  }",
+      "}",
+      "Required: {",
+      "  address = Address",
+      "  id = int46",
+      "}",
+    ].join("\n");
+    const diagnostics = diagnosticsOf(schema);
+
+    assert.deepStrictEqual(diagnostics, [
+      {
+        severity: "error",
+        message: 'unknown type "strin"',
+        file: "user.motly",
+        line: 5,
+        column: 7,
+        path: "Address.zipCode",
+      },
+      {
+        severity: "error",
+        message: 'unknown type "int46"',
+        file: "user.motly",
+        line: 11,
+        column: 3,
+        path: "User.id",
+      },
+    ]);
+    assert.strictEqual(
+      formatDiagnostic(diagnostics[1]),
+      'user.motly:11:3: error: User.id: unknown type "int46"'
+    );
+  });
+
+  it("locates parse errors", () => {
+    const schema = [
+      '#! package = "app.v1"',
+      "Required: {",
+      '  name = "unterminated',
+      "}",
+    ].join("\n");
+    const [diagnostic] = diagnosticsOf(schema);
+
+    assert.strictEqual(diagnostic.line, 3);
+    assert.strictEqual(diagnostic.column, 23);
+  });
+
+  it("locates directive errors relative to the original line", () => {
+    const schema = [
+      '#! package = "app.v1"',
+      "#!   bad = ]",
+      "Required: { name = string }",
+    ].join("\n");
+    const [diagnostic] = diagnosticsOf(schema);
+
+    assert.strictEqual(diagnostic.line, 2);
+    assert.strictEqual(diagnostic.column, 12);
+  });
+
+  it("returns warnings instead of throwing when strict is off", () => {
+    const schema = [
+      "Required: {",
+      "  id = int46",
+      "}",
+    ].join("\n");
+    const { diagnostics } = convertMotlySchema(schema, "User", { strict: false });
+
+    assert.strictEqual(diagnostics.length, 1);
+    assert.strictEqual(diagnostics[0].severity, "warning");
+    assert.strictEqual(diagnostics[0].line, 2);
+  });
+});
+
+describe("name collisions", () => {
+  it("reports fields that map to the same proto name", () => {
+    const schema = `
+      Required: {
+        userId = string
+        user_id = string
+      }
+    `;
+
+    assert.throws(
+      () => motlySchemaToProto(schema, "User"),
+      /User\.user_id: field name "user_id" of "user_id" collides with "userId"/
+    );
+  });
+
+  it("reports enum values that map to the same proto name", () => {
+    const schema = `
+      Types: {
+        Status = ["in-progress", "in progress"]
+      }
+      Required: { status = Status }
+    `;
+
+    assert.throws(
+      () => motlySchemaToProto(schema, "Test"),
+      /enum value name "STATUS_IN_PROGRESS" of "in progress" collides with "in-progress"/
+    );
+  });
+
+  it("reports enum values that collide with the UNSPECIFIED value", () => {
+    const schema = `
+      Types: {
+        Status = [unspecified, active]
+      }
+      Required: { status = Status }
+    `;
+
+    assert.throws(() => motlySchemaToProto(schema, "Test"), /collides with the default value/);
+  });
+
+  it("reports inline types that collide with named types", () => {
+    const schema = `
+      Types: {
+        user_address: {
+          Required: { street = string }
+        }
+      }
+      Required: {
+        home = user_address
+        address = tag { Required: { city = string } }
+      }
+    `;
+
+    assert.throws(
+      () => motlySchemaToProto(schema, "User"),
+      /User\.address: message name "UserAddress" of User\.address collides with Types\.user_address/
+    );
+  });
+
+  it("reports named types that collide with the root message", () => {
+    const schema = `
+      Types: {
+        User = [a, b]
+      }
+      Required: { kind = User }
+    `;
+
+    assert.throws(() => motlySchemaToProto(schema, "User"), /enum name "User" of Types\.User collides with the root message/);
+  });
+
+  it("renames later names deterministically when asked to", () => {
+    const schema = `
+      Types: {
+        user_address: {
+          Required: { street = string }
+        }
+        Status = ["in-progress", "in progress"]
+      }
+      Required: {
+        userId = string
+        user_id = string
+        address = tag { Required: { city = string } }
+        home = user_address
+        status = Status
+      }
+    `;
+    const proto = motlySchemaToProto(schema, "User", { nameCollisions: "rename" });
+
+    assert(proto.includes("string user_id = 1;"));
+    assert(proto.includes("string user_id_2 = 2;"));
+    assert(proto.includes("UserAddress2 address = 3;"));
+    assert(proto.includes("UserAddress home = 4;"));
+    assert(proto.includes("message UserAddress2 {\n  string city = 1;"));
+    assert(proto.includes("message UserAddress {\n  string street = 1;"));
+    assert(proto.includes("STATUS_IN_PROGRESS_2 = 2;"));
+  });
+});
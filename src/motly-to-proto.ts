@@ -1,4 +1,40 @@
 import { parseTag } from "@malloydata/malloy-tag";
+import {
+  deriveFileOptions,
+  FILE_OPTION_NAMES,
+  generateFileOptions,
+  parseFileOption,
+  type FileOptions,
+} from "./file-options.js";
+import {
+  enumValueName,
+  toJsonName,
+  toPascalCase,
+  toSnakeCase,
+  toUpperCamelCase,
+  unspecifiedValueName,
+} from "./naming.js";
+import { findLocation, leadingComments, locateKeys, pathKey, type SourceLocation } from "./source-locations.js";
+
+// Keys with a meaning inside a message definition; "=" holds the `tag` in
+// `field = tag { ... }`
+const MESSAGE_KEYS = new Set(["Required", "Optional", "oneOf", "="]);
+
+// Types proto allows as map keys: no floating point, enums or messages
+const MAP_KEY_TYPES = new Set([
+  "int32",
+  "int64",
+  "uint32",
+  "uint64",
+  "sint32",
+  "sint64",
+  "fixed32",
+  "fixed64",
+  "sfixed32",
+  "sfixed64",
+  "bool",
+  "string",
+]);
 
 const PROTO_NUMERIC_TYPES = new Set([
   "int32",
@@ -15,22 +51,125 @@ const PROTO_NUMERIC_TYPES = new Set([
   "double",
 ]);
 
-interface ProtoField {
+// Well-known wrapper of each scalar, for optional scalars without `optional`
+const WRAPPER_TYPES: Record<string, string> = {
+  double: "google.protobuf.DoubleValue",
+  float: "google.protobuf.FloatValue",
+  int64: "google.protobuf.Int64Value",
+  uint64: "google.protobuf.UInt64Value",
+  int32: "google.protobuf.Int32Value",
+  uint32: "google.protobuf.UInt32Value",
+  bool: "google.protobuf.BoolValue",
+  string: "google.protobuf.StringValue",
+  bytes: "google.protobuf.BytesValue",
+};
+
+// Integer types that have no wrapper of their own, and the type whose wrapper
+// holds the same values
+const WRAPPED_AS: Record<string, string> = {
+  sint64: "int64",
+  sfixed64: "int64",
+  fixed64: "uint64",
+  sint32: "int32",
+  sfixed32: "int32",
+  fixed32: "uint32",
+};
+
+export interface ProtoField {
   name: string;
   type: string;
   repeated: boolean;
   optional: boolean;
   fieldNumber: number;
+  /** Name of the `oneof` group this field belongs to */
+  oneof?: string;
+  /**
+   * Property the field is read from in MOTLY data. Alternatives of a union
+   * field share their field's name; alternatives of a message that is itself
+   * a union have none, as they hold the message's whole value.
+   */
+  sourceName?: string;
+  /** Declared under `Required`; for union alternatives, one must be set */
+  required?: boolean;
+  /** The `#` comment above the field in the schema */
+  comment?: string;
+  deprecated?: boolean;
+  /** JSON name set with the `json_name` annotation */
+  jsonName?: string;
+  /** Key type of a map field, whose `type` is the type of its values */
+  mapKey?: string;
+  /**
+   * protovalidate rules, by their path under `(buf.validate.field)`, e.g.
+   * `string.min_len`; only generated with the `validate` option
+   */
+  constraints?: Record<string, string | number | boolean>;
+}
+
+export interface ProtoEnumValue {
+  name: string;
+  number: number;
+  /** Value as written in MOTLY, e.g. `active` for `STATUS_ACTIVE` */
+  sourceName?: string;
+  comment?: string;
+  deprecated?: boolean;
+}
+
+/** Numbers and names of removed fields or enum values, kept off-limits */
+export interface ProtoReserved {
+  /** Inclusive [start, end] ranges */
+  ranges: Array<[number, number]>;
+  names: string[];
 }
 
-interface ProtoEnum {
+export interface ProtoEnum {
   name: string;
-  values: string[];
+  values: ProtoEnumValue[];
+  reserved: ProtoReserved;
+  /** Values may share a number */
+  allowAlias?: boolean;
+  comment?: string;
 }
 
-interface ProtoMessage {
+export interface ProtoMessage {
   name: string;
   fields: ProtoField[];
+  reserved: ProtoReserved;
+  /** The comment above the `Types` entry, or opening the schema for the root message */
+  comment?: string;
+  /** Comments of union fields, by oneof name */
+  oneofComments?: Record<string, string>;
+  /** Oneofs of `Required` unions, which protovalidate requires to be set */
+  requiredOneofs?: string[];
+  /**
+   * Generated to hold a list or map where proto can't have one directly, such
+   * as a map's values. In MOTLY data it is the value of its only field.
+   */
+  wrapper?: boolean;
+}
+
+export interface ProtoMethod {
+  name: string;
+  inputType: string;
+  outputType: string;
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+  comment?: string;
+}
+
+export interface ProtoService {
+  name: string;
+  methods: ProtoMethod[];
+  comment?: string;
+}
+
+/** Structural model of a generated .proto file */
+export interface ProtoSchema {
+  packageName?: string;
+  /** File options such as `go_package` */
+  options?: FileOptions;
+  messages: ProtoMessage[];
+  enums: ProtoEnum[];
+  services?: ProtoService[];
 }
 
 interface ConversionContext {
@@ -38,15 +177,206 @@ interface ConversionContext {
   customTypes: Record<string, unknown>;
   messages: ProtoMessage[];
   enums: ProtoEnum[];
+  services: ProtoService[];
   generatedMessages: Set<string>;
   generatedEnums: Set<string>;
+  /** Message/enum name claimed by each source, e.g. "Types.Address" */
+  typeNames: Map<string, string>;
+  /** Source that claimed each message/enum name */
+  typeNameOwners: Map<string, string>;
   packageName?: string;
+  /** Name of the top-level message, which fields may refer to */
+  rootMessage?: string;
+  fileOptions: FileOptions;
+  /** Imported messages and enums by MOTLY name and by qualified proto name */
+  importedTypes: Map<string, ImportedType[]>;
+  /** Imports some field refers to, by proto path */
+  usedImports: Set<string>;
+  imports: ImportedSchema[];
+  previousLock: FieldNumberLock;
+  lock: FieldNumberLock;
+  strict: boolean;
+  /** Generate protovalidate constraints */
+  validate: boolean;
+  wrapOptionalLists: boolean;
+  wrapOptionalScalars: boolean;
+  nameCollisions: "error" | "rename";
+  problems: SchemaProblem[];
+  /** Comment lines above each property path of the schema */
+  comments: Map<string, string[]>;
+}
+
+// A problem found while converting, located once conversion is done
+interface SchemaProblem {
+  path: string;
+  sourcePath: string[];
+  message: string;
+  /** Would make the .proto invalid, so it is an error even when not strict */
+  invalid?: boolean;
 }
 
-interface ConversionOptions {
+/** A converted schema file whose types another schema imports */
+export interface ImportedSchema {
+  /** Path of its generated .proto, as written in `import` statements */
+  protoPath: string;
   packageName?: string;
+  /** Proto name of each message and enum in its `Types`, by MOTLY name */
+  types: Record<string, string>;
+  /** Proto names of the enums among `types` */
+  enums?: string[];
+}
+
+interface ImportedType {
+  /** Name to refer to it by, qualified when its package differs */
+  reference: string;
+  schema: ImportedSchema;
+  enum: boolean;
+}
+
+/** A schema file named by the `import` directive, and where it's named */
+export interface SchemaImport extends SourceLocation {
+  path: string;
+}
+
+export interface ConversionOptions {
+  packageName?: string;
+  /** Package used when neither `packageName` nor a directive sets one */
+  defaultPackageName?: string;
+  /** File options; each overrides the directive of the same name */
+  fileOptions?: FileOptions;
+  /**
+   * Fill in the file options not otherwise set from the package name, as
+   * the `derive_file_options` directive does
+   */
+  deriveFileOptions?: boolean;
+  /** Field numbers from a previous run; existing numbers are reused */
+  lock?: FieldNumberLock;
+  /**
+   * Reject unknown types, unsupported values and unknown keys (default).
+   * When false, anything unrecognized silently becomes a `string` field.
+   */
+  strict?: boolean;
+  /** Used as the `file` of diagnostics */
+  fileName?: string;
+  /**
+   * What to do when two schema names map to the same proto name: report an
+   * error (default), or rename the later one by appending a number.
+   */
+  nameCollisions?: "error" | "rename";
+  /** Converted files the schema's `import` directive names */
+  imports?: ImportedSchema[];
+  /**
+   * Generate every `Types` message and enum, used or not, as a file other
+   * schemas import needs. The top-level message is then only generated when
+   * the schema declares fields.
+   */
+  allTypes?: boolean;
+  /**
+   * Annotate fields with protovalidate (`buf.validate`) constraints: the
+   * `Required` fields, enums and the constraint annotations. The directive
+   * of the same name turns it on too.
+   */
+  validate?: boolean;
+  /**
+   * Wrap `Optional` lists in a message, such as `StringList`, so that an
+   * unset list can be told from an empty one. The directive of the same name
+   * turns it on too.
+   */
+  wrapOptionalLists?: boolean;
+  /**
+   * Write `Optional` scalars as well-known wrappers, such as
+   * `google.protobuf.StringValue`, rather than with the `optional` keyword,
+   * for toolchains that don't support it. The directive of the same name
+   * turns it on too.
+   */
+  wrapOptionalScalars?: boolean;
+}
+
+export interface Diagnostic {
+  severity: "error" | "warning";
+  message: string;
+  file?: string;
+  /** 1-based, counting the `#!` directive lines */
+  line: number;
+  /** 1-based */
+  column: number;
+  /** Message and field the problem is about, e.g. `Address.zipCode` */
+  path?: string;
+}
+
+/** Thrown when a schema can't be converted; carries every problem found */
+export class SchemaError extends Error {
+  readonly diagnostics: Diagnostic[];
+
+  constructor(title: string, diagnostics: Diagnostic[]) {
+    super(`${title}\n${diagnostics.map((d) => `  ${formatDiagnostic(d)}`).join("\n")}`);
+    this.name = "SchemaError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+/** Formats a diagnostic the way compilers do: `file:line:col: error: ...` */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const file = diagnostic.file ? `${diagnostic.file}:` : "";
+  const path = diagnostic.path ? `${diagnostic.path}: ` : "";
+  return `${file}${diagnostic.line}:${diagnostic.column}: ${diagnostic.severity}: ${path}${diagnostic.message}`;
+}
+
+/**
+ * Numbers assigned to the fields of one message or the values of one enum.
+ * `removed` keeps entries that have disappeared from the schema so their
+ * numbers are never handed out again. A name pinned to a new number keeps
+ * its old one there as `name@number`. Numbers reserved without a name are
+ * kept as `@number`, and names reserved without a number have 0.
+ */
+export interface LockEntry {
+  numbers: Record<string, number>;
+  removed: Record<string, number>;
+}
+
+/**
+ * Persisted record of every field and enum value number ever assigned,
+ * keyed by proto message/enum name and proto field/value name.
+ */
+export interface FieldNumberLock {
+  version: 1;
+  messages: Record<string, LockEntry>;
+  enums: Record<string, LockEntry>;
+}
+
+export interface ConversionResult {
+  proto: string;
+  lock: FieldNumberLock;
+  schema: ProtoSchema;
+  /** Proto name of each `Types` message and enum generated, by MOTLY name */
+  types: Record<string, string>;
+  /** Problems that were tolerated because strict mode was off */
+  diagnostics: Diagnostic[];
 }
 
+// Field numbers 19000-19999 are reserved by the protobuf implementation
+const RESERVED_RANGE_START = 19000;
+const RESERVED_RANGE_END = 19999;
+const MAX_FIELD_NUMBER = 536870911;
+const MAX_ENUM_VALUE_NUMBER = 2147483647;
+// Longest field line before its options are split one per line
+const MAX_FIELD_LINE_LENGTH = 100;
+
+// Annotations each kind of declaration takes, e.g. `id = int64 { number=12 }`
+const FIELD_ANNOTATIONS = [
+  "deprecated",
+  "json_name",
+  "number",
+  "min",
+  "max",
+  "min_length",
+  "max_length",
+  "pattern",
+  "min_items",
+  "max_items",
+];
+const ENUM_VALUE_ANNOTATIONS = ["deprecated", "number"];
+
 // Type helpers for safe property access
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
@@ -62,29 +392,57 @@ function getString(obj: Record<string, unknown>, key: string): string | undefine
   return typeof value === "string" ? value : undefined;
 }
 
-function parseDirectives(content: string): { directives: Record<string, unknown>; rest: string } {
+function parseDirectives(
+  content: string,
+  fileName: string | undefined
+): { directives: Record<string, unknown>; locations: Map<string, SourceLocation>; rest: string } {
   const lines = content.split("\n");
   const directiveLines: string[] = [];
+  // Columns of each directive's text, after "#!" and any leading spaces
+  const directiveColumns: number[] = [];
   let i = 0;
 
   while (i < lines.length && lines[i].startsWith("#!")) {
-    directiveLines.push(lines[i].slice(2).trim());
+    const text = lines[i].slice(2);
+    directiveLines.push(text.trim());
+    directiveColumns.push(3 + text.length - text.trimStart().length);
     i++;
   }
 
   if (directiveLines.length === 0) {
-    return { directives: {}, rest: content };
+    return { directives: {}, locations: new Map(), rest: content };
   }
 
   const directiveContent = directiveLines.join("\n");
   const { tag, log } = parseTag(directiveContent);
   if (log.length > 0) {
-    throw new Error(`Directive parse errors: ${log.map((e) => e.message).join(", ")}`);
+    throw new SchemaError(
+      "Directive parse errors:",
+      log.map((e) => ({
+        severity: "error",
+        message: e.message,
+        file: fileName,
+        line: e.line + 1,
+        column: directiveColumns[e.line] + e.offset,
+      }))
+    );
   }
 
+  // Where each directive is first written, for problems with its value
+  const locations = new Map<string, SourceLocation>();
+  directiveLines.forEach((line, index) => {
+    const key = line.match(/^\w+/)?.[0];
+    if (key && !locations.has(key)) {
+      locations.set(key, { line: index + 1, column: directiveColumns[index] });
+    }
+  });
+
+  // Directive lines are blanked rather than removed so line numbers still
+  // match the original file
   return {
     directives: tag.toObject(),
-    rest: lines.slice(i).join("\n"),
+    locations,
+    rest: [...directiveLines.map(() => ""), ...lines.slice(i)].join("\n"),
   };
 }
 
@@ -93,15 +451,73 @@ export function motlySchemaToProto(
   messageName: string,
   options: ConversionOptions = {}
 ): string {
-  const { directives, rest } = parseDirectives(schemaContent);
+  return convertMotlySchema(schemaContent, messageName, options).proto;
+}
+
+/**
+ * Schema files named by the `import` directive, e.g.
+ * `#! import = ["common/address.motly"]`. Paths are relative to the include
+ * root rather than to the importing file, as in protoc.
+ */
+export function schemaImports(schemaContent: string, fileName?: string): SchemaImport[] {
+  const { directives, locations } = parseDirectives(schemaContent, fileName);
+  const value = directives.import;
+  if (value === undefined) {
+    return [];
+  }
+  const location = locations.get("import") ?? { line: 1, column: 1 };
+  const paths = Array.isArray(value) ? value : [value];
+  if (!paths.every((path) => typeof path === "string")) {
+    throw new SchemaError("Directive errors:", [
+      {
+        severity: "error",
+        message: "import must be a schema file path or a list of them",
+        file: fileName,
+        ...location,
+      },
+    ]);
+  }
+  return paths.map((path) => ({ path, ...location }));
+}
 
-  const { tag, log } = parseTag(rest);
+/**
+ * Parses a MOTLY document into plain values; syntax errors are thrown as a
+ * SchemaError.
+ */
+export function parseDocument(content: string, fileName?: string): Record<string, unknown> {
+  // parseTag treats a leading "#..." as an annotation prefix and parses the
+  // rest of that line; starting on a blank line keeps a first-line comment a
+  // comment, and makes the parser's 0-based line numbers 1-based file lines
+  const { tag, log } = parseTag(`\n${content}`);
   if (log.length > 0) {
-    throw new Error(`Parse errors: ${log.map((e) => e.message).join(", ")}`);
+    throw new SchemaError(
+      "Parse errors:",
+      log.map((e) => ({
+        severity: "error",
+        message: e.message,
+        file: fileName,
+        line: e.line,
+        column: e.offset + 1,
+      }))
+    );
   }
-  const schema = tag.toObject();
+  return tag.toObject();
+}
 
-  const packageName = options.packageName ?? getString(directives, "package");
+/**
+ * Converts a schema and also returns the updated field number lock, which
+ * should be persisted and passed back in on the next conversion.
+ */
+export function convertMotlySchema(
+  schemaContent: string,
+  messageName: string,
+  options: ConversionOptions = {}
+): ConversionResult {
+  const { directives, locations, rest } = parseDirectives(schemaContent, options.fileName);
+  const schema = parseDocument(rest, options.fileName);
+
+  const packageName = options.packageName ?? getString(directives, "package") ?? options.defaultPackageName;
+  const fileOptions = resolveFileOptions(directives, locations, packageName, options);
   const types = getRecord(schema, "Types") || {};
 
   const typeAliases = buildTypeAliases(types);
@@ -110,15 +526,482 @@ export function motlySchemaToProto(
     customTypes: types,
     messages: [],
     enums: [],
+    services: [],
     generatedMessages: new Set(),
     generatedEnums: new Set(),
+    typeNames: new Map(),
+    typeNameOwners: new Map(),
     packageName,
+    fileOptions,
+    importedTypes: collectImportedTypes(options.imports ?? [], packageName),
+    usedImports: new Set(),
+    imports: options.imports ?? [],
+    previousLock: options.lock ?? emptyLock(),
+    lock: emptyLock(),
+    strict: options.strict ?? true,
+    validate: options.validate ?? booleanDirective(directives, locations, "validate", options.fileName) ?? false,
+    wrapOptionalLists:
+      options.wrapOptionalLists ??
+      booleanDirective(directives, locations, "wrap_optional_lists", options.fileName) ??
+      false,
+    wrapOptionalScalars:
+      options.wrapOptionalScalars ??
+      booleanDirective(directives, locations, "wrap_optional_scalars", options.fileName) ??
+      false,
+    nameCollisions: options.nameCollisions ?? "error",
+    problems: [],
+    comments: leadingComments(rest),
   };
 
-  const rootMessage = buildMessage(messageName, schema, context);
-  context.messages.unshift(rootMessage);
+  if (schema.Types !== undefined && !isRecord(schema.Types)) {
+    reportError(context, "Types", ["Types"], "must be a block of type definitions");
+  }
+  checkTypeDefinitions(types, context);
+
+  const rootSchema = { ...schema };
+  delete rootSchema.Types;
+  delete rootSchema.Services;
+  const hasRootMessage = !options.allTypes || Object.keys(rootSchema).length > 0;
+
+  // Named types are claimed up front so they keep their names when an
+  // inline type would produce the same one
+  if (hasRootMessage) {
+    claimTypeName("message", messageName, "the root message", messageName, [], context);
+    context.rootMessage = messageName;
+  }
+  for (const [name, value] of Object.entries(types)) {
+    if (Array.isArray(value) || isRecord(value)) {
+      const kind = Array.isArray(value) || isEnumMap(value) ? "enum" : "message";
+      claimTypeName(kind, toPascalCase(name), `Types.${name}`, `Types.${name}`, ["Types", name], context);
+    }
+  }
+  const services = getRecord(schema, "Services") ?? {};
+  if (schema.Services !== undefined && !isRecord(schema.Services)) {
+    reportError(context, "Services", ["Services"], "must be a block of services");
+  }
+  for (const name of Object.keys(services)) {
+    const owner = `Services.${name}`;
+    claimTypeName("service", toUpperCamelCase(name), owner, owner, ["Services", name], context);
+  }
 
-  return generateProtoFile(context);
+  if (hasRootMessage) {
+    const rootMessage = buildMessage(messageName, rootSchema, [], context);
+    context.messages.unshift(rootMessage);
+  }
+  if (options.allTypes) {
+    for (const name of Object.keys(types)) {
+      if (context.typeNames.has(`Types.${name}`)) {
+        resolveSingleType(name, name, "Types", ["Types", name], context);
+      }
+    }
+  }
+  for (const [name, service] of Object.entries(services)) {
+    context.services.push(buildService(name, service, hasRootMessage ? messageName : undefined, context));
+  }
+  documentTypes(hasRootMessage ? messageName : undefined, context);
+
+  const diagnostics = locateProblems(context, rest, options.fileName);
+  if (diagnostics.some((d) => d.severity === "error")) {
+    throw new SchemaError("Schema errors:", diagnostics);
+  }
+
+  return {
+    proto: generateProtoFile(context),
+    lock: finalizeLock(context),
+    schema: {
+      packageName: context.packageName,
+      ...(Object.keys(fileOptions).length > 0 ? { options: fileOptions } : {}),
+      messages: context.messages,
+      enums: context.enums,
+      ...(context.services.length > 0 ? { services: context.services } : {}),
+    },
+    types: generatedTypes(context),
+    diagnostics,
+  };
+}
+
+/**
+ * File options from, in order of precedence, `options.fileOptions`, the
+ * directives, and the defaults derived from the package when asked for.
+ * Invalid directives are reported where they're written; invalid options
+ * passed in are plain errors, as they come from the caller.
+ */
+function resolveFileOptions(
+  directives: Record<string, unknown>,
+  locations: Map<string, SourceLocation>,
+  packageName: string | undefined,
+  options: ConversionOptions
+): FileOptions {
+  const diagnostics: Diagnostic[] = [];
+  const derive =
+    options.deriveFileOptions ?? booleanDirective(directives, locations, "derive_file_options", options.fileName);
+  const fileOptions: FileOptions = derive ? deriveFileOptions(packageName, options.fileName) : {};
+  for (const name of FILE_OPTION_NAMES) {
+    if (directives[name] === undefined) {
+      continue;
+    }
+    const parsed = parseFileOption(name, directives[name]);
+    if ("error" in parsed) {
+      diagnostics.push({
+        severity: "error",
+        message: parsed.error,
+        file: options.fileName,
+        ...(locations.get(name) ?? { line: 1, column: 1 }),
+      });
+    } else {
+      Object.assign(fileOptions, { [name]: parsed.value });
+    }
+  }
+  if (diagnostics.length > 0) {
+    throw new SchemaError("Directive errors:", diagnostics);
+  }
+
+  for (const name of FILE_OPTION_NAMES) {
+    const value = options.fileOptions?.[name];
+    if (value === undefined) {
+      continue;
+    }
+    const parsed = parseFileOption(name, value);
+    if ("error" in parsed) {
+      throw new Error(parsed.error);
+    }
+    Object.assign(fileOptions, { [name]: parsed.value });
+  }
+  return fileOptions;
+}
+
+// A directive that turns something on, such as `#! validate = @true`
+function booleanDirective(
+  directives: Record<string, unknown>,
+  locations: Map<string, SourceLocation>,
+  name: string,
+  fileName: string | undefined
+): boolean | undefined {
+  const value = directives[name];
+  if (value !== undefined && typeof value !== "boolean") {
+    throw new SchemaError("Directive errors:", [
+      {
+        severity: "error",
+        message: `${name} must be true or false`,
+        file: fileName,
+        ...(locations.get(name) ?? { line: 1, column: 1 }),
+      },
+    ]);
+  }
+  return value;
+}
+
+// Inline messages and enums aren't documented; the field they belong to is
+function documentTypes(rootMessage: string | undefined, context: ConversionContext): void {
+  const typePaths = new Map(
+    Object.keys(context.customTypes).map((name) => [context.typeNames.get(`Types.${name}`), ["Types", name]])
+  );
+  if (rootMessage) {
+    typePaths.set(rootMessage, []);
+  }
+  for (const type of [...context.messages, ...context.enums]) {
+    const sourcePath = typePaths.get(type.name);
+    if (sourcePath) {
+      Object.assign(type, commentAt(sourcePath, context));
+    }
+  }
+}
+
+// The comment above a property, ready to spread into a model object
+function commentAt(sourcePath: string[], context: ConversionContext): { comment?: string } {
+  const lines = context.comments.get(pathKey(sourcePath));
+  return lines ? { comment: lines.join("\n") } : {};
+}
+
+function collectImportedTypes(imports: ImportedSchema[], packageName: string | undefined): Map<string, ImportedType[]> {
+  const importedTypes = new Map<string, ImportedType[]>();
+  for (const schema of imports) {
+    for (const [name, protoName] of Object.entries(schema.types)) {
+      const qualified = schema.packageName ? `${schema.packageName}.${protoName}` : protoName;
+      const reference = schema.packageName === packageName ? protoName : qualified;
+      for (const key of new Set([name, qualified])) {
+        const type = { reference, schema, enum: schema.enums?.includes(protoName) ?? false };
+        importedTypes.set(key, [...(importedTypes.get(key) ?? []), type]);
+      }
+    }
+  }
+  return importedTypes;
+}
+
+function generatedTypes(context: ConversionContext): Record<string, string> {
+  const types: Record<string, string> = {};
+  for (const name of Object.keys(context.customTypes)) {
+    const protoName = context.typeNames.get(`Types.${name}`);
+    if (protoName && (context.generatedMessages.has(protoName) || context.generatedEnums.has(protoName))) {
+      types[name] = protoName;
+    }
+  }
+  return types;
+}
+
+function emptyLock(): FieldNumberLock {
+  return { version: 1, messages: {}, enums: {} };
+}
+
+export function parseLockFile(content: string): FieldNumberLock {
+  const parsed: unknown = JSON.parse(content);
+  if (!isRecord(parsed) || parsed.version !== 1) {
+    throw new Error("Invalid lock file: expected version 1");
+  }
+  return {
+    version: 1,
+    messages: parseLockEntries(parsed.messages, "messages"),
+    enums: parseLockEntries(parsed.enums, "enums"),
+  };
+}
+
+function parseLockEntries(value: unknown, section: string): Record<string, LockEntry> {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isRecord(value)) {
+    throw new Error(`Invalid lock file: "${section}" must be an object`);
+  }
+  const entries: Record<string, LockEntry> = {};
+  for (const [name, entry] of Object.entries(value)) {
+    if (!isRecord(entry)) {
+      throw new Error(`Invalid lock file: ${section}.${name} must be an object`);
+    }
+    entries[name] = {
+      numbers: parseLockNumbers(entry.numbers, `${section}.${name}.numbers`),
+      removed: parseLockNumbers(entry.removed, `${section}.${name}.removed`),
+    };
+  }
+  return entries;
+}
+
+function parseLockNumbers(value: unknown, path: string): Record<string, number> {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isRecord(value)) {
+    throw new Error(`Invalid lock file: ${path} must be an object`);
+  }
+  const numbers: Record<string, number> = {};
+  for (const [name, num] of Object.entries(value)) {
+    if (typeof num !== "number" || !Number.isInteger(num) || num < 0) {
+      throw new Error(`Invalid lock file: ${path}.${name} must be a non-negative integer`);
+    }
+    numbers[name] = num;
+  }
+  return numbers;
+}
+
+/**
+ * Serializes a lock with entries sorted by name and numbers sorted in
+ * ascending order, so regenerating an unchanged schema is a no-op diff.
+ */
+export function serializeLockFile(lock: FieldNumberLock): string {
+  const sortEntries = (entries: Record<string, LockEntry>) =>
+    Object.fromEntries(
+      Object.keys(entries)
+        .sort()
+        .map((name) => [
+          name,
+          {
+            numbers: sortNumbers(entries[name].numbers),
+            removed: sortNumbers(entries[name].removed),
+          },
+        ])
+    );
+  const sorted: FieldNumberLock = {
+    version: 1,
+    messages: sortEntries(lock.messages),
+    enums: sortEntries(lock.enums),
+  };
+  return JSON.stringify(sorted, null, 2) + "\n";
+}
+
+function sortNumbers(numbers: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(numbers).sort((a, b) => a[1] - b[1]));
+}
+
+/**
+ * Assigns a number to each name, reusing numbers recorded in the previous
+ * lock entry and allocating new ones above the highest number ever used.
+ * A name that was removed and later restored gets its old number back.
+ * Pinned numbers win over the lock and are skipped when allocating; a name
+ * pinned away from its locked number leaves that number removed.
+ */
+function assignNumbers(
+  previous: LockEntry | undefined,
+  names: string[],
+  firstNumber: number,
+  pinned: Map<string, number> = new Map()
+): { numbers: Map<string, number>; entry: LockEntry } {
+  const previousNumbers = previous?.numbers ?? {};
+  const previousRemoved = previous?.removed ?? {};
+  let highest = Math.max(
+    firstNumber - 1,
+    ...Object.values(previousNumbers),
+    ...Object.values(previousRemoved)
+  );
+
+  const pinnedNumbers = new Set(pinned.values());
+  const numbers = new Map<string, number>();
+  for (const name of names) {
+    if (numbers.has(name)) {
+      continue;
+    }
+    const existing = pinned.get(name) ?? previousNumbers[name] ?? (previousRemoved[name] || undefined);
+    if (existing !== undefined) {
+      numbers.set(name, existing);
+      continue;
+    }
+    do {
+      highest++;
+      if (highest >= RESERVED_RANGE_START && highest <= RESERVED_RANGE_END) {
+        highest = RESERVED_RANGE_END + 1;
+      }
+    } while (pinnedNumbers.has(highest));
+    numbers.set(name, highest);
+  }
+
+  const removed: Record<string, number> = {};
+  for (const [name, num] of Object.entries({ ...previousRemoved, ...previousNumbers })) {
+    const current = numbers.get(name);
+    if (current === undefined) {
+      removed[name] = num;
+    } else if (current !== num && num !== 0) {
+      removed[`${name}@${num}`] = num;
+    }
+  }
+
+  return { numbers, entry: { numbers: Object.fromEntries(numbers), removed } };
+}
+
+// Entries for messages/enums no longer generated are carried over so their
+// numbers survive if the type comes back.
+function finalizeLock(context: ConversionContext): FieldNumberLock {
+  return {
+    version: 1,
+    messages: { ...context.previousLock.messages, ...context.lock.messages },
+    enums: { ...context.previousLock.enums, ...context.lock.enums },
+  };
+}
+
+/**
+ * Records a problem with the schema. `path` names the message and field it
+ * concerns; `sourcePath` is the property path in the MOTLY document, used to
+ * find the line it's on.
+ */
+function reportError(
+  context: ConversionContext,
+  path: string,
+  sourcePath: string[],
+  message: string
+): void {
+  context.problems.push({ path, sourcePath, message });
+}
+
+/**
+ * Records a problem that would make the generated .proto invalid, such as
+ * a name or number used twice. These are errors whether or not strict mode
+ * is on.
+ */
+function reportInvalid(
+  context: ConversionContext,
+  path: string,
+  sourcePath: string[],
+  message: string
+): void {
+  context.problems.push({ path, sourcePath, message, invalid: true });
+}
+
+/**
+ * Claims a message, enum or service name for a source, returning the name to
+ * use. They all share one proto namespace.
+ */
+function claimTypeName(
+  kind: "message" | "enum" | "service",
+  name: string,
+  owner: string,
+  path: string,
+  sourcePath: string[],
+  context: ConversionContext
+): string {
+  const claimed = context.typeNames.get(owner);
+  if (claimed) {
+    return claimed;
+  }
+  const finalName = resolveCollision(name, owner, context.typeNameOwners, path, sourcePath, kind, "", context);
+  context.typeNames.set(owner, finalName);
+  return finalName;
+}
+
+/**
+ * Registers `name` for `owner` in a namespace. If another owner already has
+ * it, either reports the collision or picks the next free `name<sep>N`.
+ */
+function resolveCollision(
+  name: string,
+  owner: string,
+  owners: Map<string, string>,
+  path: string,
+  sourcePath: string[],
+  kind: string,
+  separator: string,
+  context: ConversionContext
+): string {
+  const existing = owners.get(name);
+  if (existing === undefined || existing === owner) {
+    owners.set(name, owner);
+    return name;
+  }
+  if (context.nameCollisions === "error") {
+    reportInvalid(context, path, sourcePath, `${kind} name "${name}" of ${owner} collides with ${existing}`);
+    return name;
+  }
+  let suffix = 2;
+  while (owners.has(`${name}${separator}${suffix}`)) {
+    suffix++;
+  }
+  const renamed = `${name}${separator}${suffix}`;
+  owners.set(renamed, owner);
+  return renamed;
+}
+
+function locateProblems(
+  context: ConversionContext,
+  source: string,
+  fileName: string | undefined
+): Diagnostic[] {
+  if (context.problems.length === 0) {
+    return [];
+  }
+  const locations = locateKeys(source);
+  const diagnostics: Diagnostic[] = context.problems.map((problem) => ({
+    severity: context.strict || problem.invalid ? "error" : "warning",
+    message: problem.message,
+    file: fileName,
+    ...findLocation(locations, problem.sourcePath),
+    path: problem.path,
+  }));
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+function checkTypeDefinitions(types: Record<string, unknown>, context: ConversionContext): void {
+  for (const [name, value] of Object.entries(types)) {
+    if (Array.isArray(value) || isRecord(value)) {
+      continue;
+    }
+    if (value === "number" && PROTO_NUMERIC_TYPES.has(name)) {
+      continue;
+    }
+    reportError(
+      context,
+      `Types.${name}`,
+      ["Types", name],
+      value === "number"
+        ? `"${name}" is not a protobuf numeric type`
+        : "must be an enum [a, b, c], a message { ... }, or a numeric alias"
+    );
+  }
 }
 
 function buildTypeAliases(types: Record<string, unknown>): Map<string, string> {
@@ -131,120 +1014,784 @@ function buildTypeAliases(types: Record<string, unknown>): Map<string, string> {
   return aliases;
 }
 
+// Properties written on a field's or enum value's type, e.g.
+// `legacyId = int64 { deprecated number=12 }`
+interface Annotations {
+  deprecated?: boolean;
+  jsonName?: string;
+  number?: number;
+  /** Constraint annotations such as `min_length`, checked once the type is known */
+  constraints?: Record<string, number | string>;
+}
+
+// A field as declared in the schema, before its type is resolved
+interface FieldEntry {
+  fieldName: string;
+  fieldType: unknown;
+  optional: boolean;
+  oneof?: string;
+  sourceName?: string;
+  required: boolean;
+  annotations: Annotations;
+  /** Property path of the field in the MOTLY document */
+  sourcePath: string[];
+}
+
+// An enum value as declared, e.g. `legacy { deprecated number=5 }`
+interface EnumValueEntry {
+  value: string;
+  annotations: Annotations;
+  sourcePath: string[];
+}
+
+interface EnumDefinition {
+  values: EnumValueEntry[];
+  allowAlias: boolean;
+}
+
+// A number given with the `number` annotation, to check before it's used
+interface PinnedNumber {
+  name: string;
+  number: number;
+  path: string;
+  sourcePath: string[];
+}
+
+/**
+ * Splits an annotated value into what's under "=" and its annotations.
+ * Anything else, including an inline message written `tag { Required: ... }`,
+ * has no annotations.
+ */
+function readAnnotations(
+  value: unknown,
+  allowed: string[],
+  path: string,
+  sourcePath: string[],
+  context: ConversionContext
+): { value: unknown; annotations: Annotations } {
+  if (!isRecord(value) || !("=" in value) || Object.keys(value).some((key) => key !== "=" && MESSAGE_KEYS.has(key))) {
+    return { value, annotations: {} };
+  }
+
+  const annotations: Annotations = {};
+  for (const [key, annotation] of Object.entries(value)) {
+    if (key === "=") {
+      continue;
+    }
+    if (!allowed.includes(key)) {
+      const expected = allowed.map((name) => `"${name}"`).join(", ");
+      reportError(context, path, sourcePath, `unknown annotation "${key}", expected one of ${expected}`);
+    } else if (key === "deprecated") {
+      if (typeof annotation === "boolean") {
+        annotations.deprecated = annotation;
+      } else {
+        reportError(context, path, sourcePath, "deprecated must be true or false");
+      }
+    } else if (key === "json_name") {
+      if (typeof annotation === "string" && annotation !== "") {
+        annotations.jsonName = annotation;
+      } else {
+        reportError(context, path, sourcePath, "json_name must be a non-empty string");
+      }
+    } else if (key === "number") {
+      if (typeof annotation === "number" && Number.isInteger(annotation)) {
+        annotations.number = annotation;
+      } else {
+        reportError(context, path, sourcePath, `number must be a whole number, got ${JSON.stringify(annotation)}`);
+      }
+    } else {
+      const problem = constraintProblem(key, annotation);
+      if (problem) {
+        reportError(context, path, sourcePath, problem);
+      } else {
+        annotations.constraints = { ...annotations.constraints, [key]: annotation as number | string };
+      }
+    }
+  }
+  return { value: value["="], annotations };
+}
+
+// What's wrong with the value of a constraint annotation, if anything
+function constraintProblem(key: string, value: unknown): string | undefined {
+  if (key === "pattern") {
+    if (typeof value !== "string") {
+      return "pattern must be a regular expression string";
+    }
+    try {
+      new RegExp(value);
+    } catch {
+      return `pattern ${JSON.stringify(value)} is not a valid regular expression`;
+    }
+    return undefined;
+  }
+  if (key === "min" || key === "max") {
+    return typeof value === "number" && Number.isFinite(value) ? undefined : `${key} must be a number`;
+  }
+  return typeof value === "number" && Number.isInteger(value) && value >= 0
+    ? undefined
+    : `${key} must be a whole number of at least 0`;
+}
+
+// protovalidate rule of each constraint annotation, and the types it applies to
+const CONSTRAINT_RULES: Record<string, { rule: string; appliesTo: "numbers" | "strings" | "lists" }> = {
+  min: { rule: "gte", appliesTo: "numbers" },
+  max: { rule: "lte", appliesTo: "numbers" },
+  min_length: { rule: "min_len", appliesTo: "strings" },
+  max_length: { rule: "max_len", appliesTo: "strings" },
+  pattern: { rule: "pattern", appliesTo: "strings" },
+  min_items: { rule: "min_items", appliesTo: "lists" },
+  max_items: { rule: "max_items", appliesTo: "lists" },
+};
+
+// A map's size is counted in pairs rather than items
+const MAP_RULES: Record<string, string> = { min_items: "min_pairs", max_items: "max_pairs" };
+
+/**
+ * protovalidate rules of a field, by their path under `(buf.validate.field)`.
+ * Rules on the elements of a list go under `repeated.items`, and on the
+ * values of a map under `map.values`. `required` is
+ * only set on enum and message fields: a proto3 scalar can't tell a zero
+ * value from an unset one, so it would reject `false`, `0` and `""`.
+ */
+function fieldConstraints(
+  field: ProtoField,
+  { annotations, oneof, sourcePath }: FieldEntry,
+  path: string,
+  context: ConversionContext
+): Record<string, string | number | boolean> {
+  const isEnum = isEnumType(field.type, context);
+  const isText = field.type === "string" || field.type === "bytes";
+  const isMessage = !isEnum && !isText && !PROTO_NUMERIC_TYPES.has(field.type) && field.type !== "bool";
+  const items = field.repeated ? "repeated.items." : field.mapKey ? "map.values." : "";
+
+  const constraints: Record<string, string | number | boolean> = {};
+  if (field.required && !field.repeated && !field.mapKey && !oneof && (isEnum || isMessage)) {
+    constraints.required = true;
+  }
+  if (isEnum) {
+    constraints[`${items}enum.defined_only`] = true;
+  }
+  for (const [key, value] of Object.entries(annotations.constraints ?? {})) {
+    const { rule, appliesTo } = CONSTRAINT_RULES[key];
+    if (appliesTo === "lists" && field.repeated) {
+      constraints[`repeated.${rule}`] = value;
+    } else if (appliesTo === "lists" && field.mapKey) {
+      constraints[`map.${MAP_RULES[rule]}`] = value;
+    } else if (appliesTo === "numbers" && PROTO_NUMERIC_TYPES.has(field.type)) {
+      if (field.type !== "double" && field.type !== "float" && !Number.isInteger(value)) {
+        reportError(context, path, sourcePath, `${key} must be a whole number for ${field.type}`);
+      }
+      constraints[`${items}${field.type}.${rule}`] = value;
+    } else if (appliesTo === "strings" && isText) {
+      constraints[`${items}${field.type}.${rule}`] = value;
+    } else {
+      reportError(context, path, sourcePath, `${key} only applies to ${appliesTo}`);
+    }
+  }
+
+  for (const [min, max] of [
+    ["min", "max"],
+    ["min_length", "max_length"],
+    ["min_items", "max_items"],
+  ]) {
+    const low = annotations.constraints?.[min];
+    const high = annotations.constraints?.[max];
+    if (typeof low === "number" && typeof high === "number" && low > high) {
+      reportError(context, path, sourcePath, `${min} is greater than ${max}`);
+    }
+  }
+  return constraints;
+}
+
+/**
+ * Keeps the pinned numbers that can be used: in range, pinned once, and not
+ * recorded in the lock for another name, as reusing one would change what
+ * existing data means. Problems are reported and the number left unpinned.
+ */
+function checkPinnedNumbers(
+  pinned: PinnedNumber[],
+  kind: "field" | "enum value",
+  previous: LockEntry | undefined,
+  context: ConversionContext,
+  allowAlias = false
+): Map<string, number> {
+  const lockOwners = new Map<number, string>();
+  for (const [key, number] of Object.entries(previous?.removed ?? {})) {
+    const [name, oldNumber] = key.split("@");
+    lockOwners.set(
+      number,
+      !name ? "a reserved number" : oldNumber ? `the old number of ${name}` : `removed ${kind} ${name}`
+    );
+  }
+  for (const [name, number] of Object.entries(previous?.numbers ?? {})) {
+    lockOwners.set(number, name);
+  }
+  // An alias may share the number of a value that keeps it
+  const keptNumbers = new Set(
+    pinned.flatMap(({ name, number }) => (allowAlias && previous?.numbers[name] === number ? [number] : []))
+  );
+
+  const max = kind === "field" ? MAX_FIELD_NUMBER : MAX_ENUM_VALUE_NUMBER;
+  const numbers = new Map<string, number>();
+  const owners = new Map<number, string>();
+  for (const { name, number, path, sourcePath } of pinned) {
+    const error = (message: string) => reportInvalid(context, path, sourcePath, message);
+    const lockOwner = lockOwners.get(number);
+    if (number < 1 || number > max) {
+      error(`number must be between 1 and ${max}, got ${number}`);
+    } else if (kind === "field" && number >= RESERVED_RANGE_START && number <= RESERVED_RANGE_END) {
+      error(`number ${number} is in the range ${RESERVED_RANGE_START}-${RESERVED_RANGE_END} reserved by protobuf`);
+    } else if (owners.has(number) && !allowAlias) {
+      error(`number ${number} is also pinned by ${owners.get(number)}`);
+    } else if (lockOwner !== undefined && previous?.numbers[name] !== number && !keptNumbers.has(number)) {
+      error(`number ${number} is already used by ${lockOwner} in the lock file`);
+    } else {
+      owners.set(number, name);
+      numbers.set(name, number);
+    }
+  }
+  return numbers;
+}
+
 function buildMessage(
   name: string,
   schema: Record<string, unknown>,
+  sourcePath: string[],
   context: ConversionContext
 ): ProtoMessage {
-  const fields: ProtoField[] = [];
-  let fieldNumber = 1;
-
-  const required = getRecord(schema, "Required");
-  if (required) {
-    for (const [fieldName, fieldType] of Object.entries(required)) {
-      const field = processField(
-        fieldName,
-        fieldType,
-        false,
-        fieldNumber++,
-        name,
-        context
+  const entries: FieldEntry[] = [];
+  checkMessageKeys(name, schema, sourcePath, context);
+
+  // A message that is itself a union holds a single `value` oneof
+  if (Array.isArray(schema.oneOf)) {
+    entries.push(
+      ...unionEntries(name, [...sourcePath, "oneOf"], "value", undefined, false, schema.oneOf, context)
+    );
+  }
+
+  for (const section of ["Required", "Optional"]) {
+    const fields = getRecord(schema, section);
+    if (!fields) {
+      continue;
+    }
+    for (const [fieldName, fieldType] of Object.entries(fields)) {
+      entries.push(
+        ...fieldEntries(
+          name,
+          fieldName,
+          fieldType,
+          section === "Optional",
+          [...sourcePath, section, fieldName],
+          context
+        )
       );
-      fields.push(field);
     }
   }
 
-  const optional = getRecord(schema, "Optional");
-  if (optional) {
-    for (const [fieldName, fieldType] of Object.entries(optional)) {
-      const field = processField(
-        fieldName,
-        fieldType,
-        true,
-        fieldNumber++,
-        name,
-        context
+  // Fields and oneofs share a namespace within the message
+  const fieldOwners = new Map<string, string>();
+  const oneofNames = new Map<string, string>();
+  const protoNames = entries.map((fieldEntry) => {
+    const { fieldName, oneof, sourcePath: fieldPath } = fieldEntry;
+    if (oneof && !oneofNames.has(oneof)) {
+      const owner = `"${fieldPath[fieldPath.length - 1]}"`;
+      oneofNames.set(
+        oneof,
+        resolveCollision(oneof, owner, fieldOwners, `${name}.${oneof}`, fieldPath, "oneof", "_", context)
       );
-      fields.push(field);
+    }
+    const owner = oneof ? `"${oneof}" alternative ${fieldEntry.fieldType}` : `"${fieldName}"`;
+    const protoName = toSnakeCase(fieldName);
+    return resolveCollision(protoName, owner, fieldOwners, `${name}.${protoName}`, fieldPath, "field", "_", context);
+  });
+
+  const pinned = entries.flatMap(({ annotations, sourcePath: fieldPath }, index) => {
+    const protoName = protoNames[index];
+    return annotations.number !== undefined
+      ? [{ name: protoName, number: annotations.number, path: `${name}.${protoName}`, sourcePath: fieldPath }]
+      : [];
+  });
+  const previous = context.previousLock.messages[name];
+  const pinnedNumbers = checkPinnedNumbers(pinned, "field", previous, context);
+  const { numbers, entry } = assignNumbers(previous, protoNames, 1, pinnedNumbers);
+  context.lock.messages[name] = entry;
+
+  const fields = entries.map((fieldEntry, index) => ({
+    ...processField(fieldEntry, protoNames[index], numbers.get(protoNames[index])!, name, context),
+    ...(fieldEntry.oneof ? { oneof: oneofNames.get(fieldEntry.oneof)! } : {}),
+  }));
+  checkJsonNames(name, fields, entries, context);
+
+  // A union's comment is above the field in the schema, so it documents the
+  // whole oneof rather than one alternative
+  const oneofComments: Record<string, string> = {};
+  for (const { oneof, sourcePath: fieldPath } of entries) {
+    const { comment } = commentAt(fieldPath, context);
+    if (oneof && comment !== undefined) {
+      oneofComments[oneofNames.get(oneof)!] = comment;
     }
   }
 
-  return { name, fields };
+  const requiredOneofs = [
+    ...new Set(entries.flatMap(({ oneof, required }) => (oneof && required ? [oneofNames.get(oneof)!] : []))),
+  ];
+
+  return {
+    name,
+    fields,
+    reserved: toReserved(entry),
+    ...(Object.keys(oneofComments).length > 0 ? { oneofComments } : {}),
+    ...(context.validate && requiredOneofs.length > 0 ? { requiredOneofs } : {}),
+  };
 }
 
-function processField(
+// protoc rejects two fields with the same JSON name; only one set with
+// `json_name` can cause that
+function checkJsonNames(
+  messageName: string,
+  fields: ProtoField[],
+  entries: FieldEntry[],
+  context: ConversionContext
+): void {
+  const owners = new Map<string, ProtoField>();
+  fields.forEach((field, index) => {
+    const jsonName = field.jsonName ?? toJsonName(field.name);
+    const owner = owners.get(jsonName);
+    if (!owner) {
+      owners.set(jsonName, field);
+    } else if (field.jsonName !== undefined || owner.jsonName !== undefined) {
+      reportError(
+        context,
+        `${messageName}.${field.name}`,
+        entries[index].sourcePath,
+        `JSON name "${jsonName}" is also the JSON name of ${owner.name}`
+      );
+    }
+  });
+}
+
+function checkMessageKeys(
+  name: string,
+  schema: Record<string, unknown>,
+  sourcePath: string[],
+  context: ConversionContext
+): void {
+  for (const [key, value] of Object.entries(schema)) {
+    const keyPath = [...sourcePath, key];
+    if (!MESSAGE_KEYS.has(key)) {
+      reportError(context, `${name}.${key}`, keyPath, "unknown key, expected Required, Optional or oneOf");
+    } else if (key === "=" && value !== "tag") {
+      reportError(context, name, sourcePath, `unsupported value ${JSON.stringify(value)} for an inline message`);
+    } else if ((key === "Required" || key === "Optional") && !isRecord(value)) {
+      reportError(context, `${name}.${key}`, keyPath, "must be a block of fields");
+    } else if (key === "oneOf" && !Array.isArray(value)) {
+      reportError(context, `${name}.oneOf`, keyPath, "must be a list of types");
+    }
+  }
+}
+
+// A singular field whose type is a union expands into one field per
+// alternative inside a oneof named after the field.
+function fieldEntries(
+  parentName: string,
   fieldName: string,
   fieldType: unknown,
   optional: boolean,
+  sourcePath: string[],
+  context: ConversionContext
+): FieldEntry[] {
+  const path = `${parentName}.${fieldName}`;
+  const { value, annotations } = readAnnotations(fieldType, FIELD_ANNOTATIONS, path, sourcePath, context);
+  const alternatives = unionAlternatives(value, context);
+  if (alternatives) {
+    // A union is a field per alternative, so only `deprecated` applies to it
+    if (Object.keys(annotations).some((key) => key !== "deprecated")) {
+      reportError(context, path, sourcePath, "a union field has one field per alternative, so only deprecated applies");
+    }
+    return unionEntries(path, sourcePath, toSnakeCase(fieldName), fieldName, !optional, alternatives, context).map(
+      (entry) => ({ ...entry, annotations: annotations.deprecated ? { deprecated: true } : {} })
+    );
+  }
+  return [
+    { fieldName, fieldType: value, optional, sourceName: fieldName, required: !optional, annotations, sourcePath },
+  ];
+}
+
+function unionAlternatives(fieldType: unknown, context: ConversionContext): unknown[] | undefined {
+  if (typeof fieldType === "string") {
+    const customDef = context.customTypes[fieldType];
+    if (isRecord(customDef) && Array.isArray(customDef.oneOf)) {
+      return customDef.oneOf;
+    }
+  }
+  if (isRecord(fieldType) && Array.isArray(fieldType.oneOf)) {
+    return fieldType.oneOf;
+  }
+  return undefined;
+}
+
+function unionEntries(
+  path: string,
+  sourcePath: string[],
+  oneof: string,
+  sourceName: string | undefined,
+  required: boolean,
+  alternatives: unknown[],
+  context: ConversionContext
+): FieldEntry[] {
+  const entries: FieldEntry[] = [];
+  for (const alternative of alternatives) {
+    if (typeof alternative !== "string" || alternative.endsWith("[]") || parseMapType(alternative)) {
+      reportError(
+        context,
+        path,
+        sourcePath,
+        `union alternative ${JSON.stringify(alternative)} must be a single named type`
+      );
+      continue;
+    }
+    // An imported type may be referred to by its qualified name. Field names
+    // are unique across a message, so a union field's alternatives start with
+    // its name; a message that is a union has only its `value` oneof.
+    const typeName = alternative.split(".").pop()!;
+    entries.push({
+      fieldName: sourceName === undefined ? `${typeName}_value` : `${oneof}_${typeName}`,
+      fieldType: alternative,
+      optional: false,
+      oneof,
+      sourceName,
+      required,
+      annotations: {},
+      sourcePath,
+    });
+  }
+  return entries;
+}
+
+// Names and numbers still in use, such as the name of a renumbered field or
+// the number of a removed alias, are left out
+function toReserved(entry: LockEntry): ProtoReserved {
+  const used = new Set(Object.values(entry.numbers));
+  const numbers = new Set(Object.values(entry.removed).filter((num) => num !== 0 && !used.has(num)));
+  const names = new Set(Object.keys(entry.removed).map((key) => key.split("@")[0]));
+  return {
+    ranges: toRanges([...numbers].sort((a, b) => a - b)),
+    names: [...names].filter((name) => name && !(name in entry.numbers)).sort(),
+  };
+}
+
+function processField(
+  fieldEntry: FieldEntry,
+  protoName: string,
   fieldNumber: number,
   parentName: string,
   context: ConversionContext
 ): ProtoField {
-  const { type, repeated } = resolveType(
-    fieldType,
-    fieldName,
-    parentName,
-    context
-  );
+  // A repeated field can't be `optional`, but a message holding the list can
+  const { fieldType, fieldName, sourcePath } = fieldEntry;
+  const wrapList =
+    context.wrapOptionalLists && fieldEntry.optional && typeof fieldType === "string" && fieldType.endsWith("[]");
+  const { type, repeated, mapKey } = wrapList
+    ? { type: wrapperMessage(fieldType, fieldName, parentName, sourcePath, context), repeated: false }
+    : resolveType(fieldType, fieldName, parentName, sourcePath, context);
+  // Constraints on a wrapper use the rules of the scalar it holds
+  const wrappedType = WRAPPED_AS[type] ?? type;
+  const wrapOptional = context.wrapOptionalScalars && fieldEntry.optional && !repeated && !mapKey;
+  const wrapScalar = wrapOptional && Object.hasOwn(WRAPPER_TYPES, wrappedType);
 
-  return {
-    name: toSnakeCase(fieldName),
-    type,
+  const field: ProtoField = {
+    name: protoName,
+    type: wrapScalar ? wrappedType : type,
     repeated,
-    optional,
+    optional: fieldEntry.optional,
     fieldNumber,
+    ...(fieldEntry.sourceName !== undefined ? { sourceName: fieldEntry.sourceName } : {}),
+    required: fieldEntry.required,
+    ...(fieldEntry.oneof ? {} : commentAt(fieldEntry.sourcePath, context)),
+    ...(fieldEntry.annotations.deprecated ? { deprecated: true } : {}),
+    ...(fieldEntry.annotations.jsonName !== undefined ? { jsonName: fieldEntry.annotations.jsonName } : {}),
+    ...(mapKey ? { mapKey } : {}),
   };
+
+  // Misused constraints are errors whether or not they're generated
+  const path = `${parentName}.${protoName}`;
+  const constraints = fieldConstraints(field, fieldEntry, path, context);
+  if (context.validate && Object.keys(constraints).length > 0) {
+    field.constraints = constraints;
+  }
+  if (wrapScalar) {
+    field.type = WRAPPER_TYPES[wrappedType];
+  } else if (wrapOptional && isEnumType(type, context)) {
+    // An enum has no well-known wrapper, so it gets one of its own
+    field.type = enumWrapperMessage(type, path, sourcePath, context);
+    delete field.constraints;
+  }
+  // Messages, wrappers included, have presence without `optional`
+  if (wrapOptional) {
+    field.optional = false;
+  }
+  return field;
 }
 
 function resolveType(
   fieldType: unknown,
   fieldName: string,
   parentName: string,
+  sourcePath: string[],
   context: ConversionContext
-): { type: string; repeated: boolean } {
-  // Inline enum definition [a, b, c]
-  if (Array.isArray(fieldType)) {
-    const enumName = parentName + toPascalCase(fieldName);
-    if (!context.generatedEnums.has(enumName)) {
-      context.generatedEnums.add(enumName);
-      context.enums.push({
-        name: enumName,
-        values: fieldType.map(String),
-      });
-    }
+): { type: string; repeated: boolean; mapKey?: string } {
+  const path = `${parentName}.${fieldName}`;
+
+  // Inline enum definition [a, b, c] or { a = 1 b = 2 }
+  if (Array.isArray(fieldType) || isEnumMap(fieldType)) {
+    const enumName = claimTypeName("enum", parentName + toPascalCase(fieldName), path, path, sourcePath, context);
+    addEnum(enumName, enumDefinition(fieldType, path, sourcePath, context), path, sourcePath, context);
     return { type: enumName, repeated: false };
   }
 
   if (typeof fieldType === "string") {
     // Array types: "string[]", "CustomType[]", etc.
+    const mapType = parseMapType(fieldType);
+    if (mapType) {
+      return { ...resolveMapType(mapType, fieldName, parentName, sourcePath, context), repeated: false };
+    }
+
     const arrayMatch = fieldType.match(/^(.+)\[\]$/);
     if (arrayMatch) {
       const innerType = arrayMatch[1];
-      const resolved = resolveSingleType(innerType, fieldName, parentName, context);
+      // A list of lists or maps is a list of messages each holding one
+      const resolved =
+        innerType.endsWith("[]") || parseMapType(innerType)
+          ? wrapperMessage(innerType, fieldName, parentName, sourcePath, context)
+          : resolveSingleType(innerType, fieldName, parentName, sourcePath, context);
       return { type: resolved, repeated: true };
     }
 
-    return { type: resolveSingleType(fieldType, fieldName, parentName, context), repeated: false };
+    return {
+      type: resolveSingleType(fieldType, fieldName, parentName, sourcePath, context),
+      repeated: false,
+    };
   }
 
   // Inline nested object
   if (isRecord(fieldType)) {
-    const msgName = parentName + toPascalCase(fieldName);
+    const msgName = claimTypeName("message", parentName + toPascalCase(fieldName), path, path, sourcePath, context);
     if (!context.generatedMessages.has(msgName)) {
       context.generatedMessages.add(msgName);
-      const nestedMsg = buildMessage(msgName, fieldType, context);
+      const nestedMsg = buildMessage(msgName, fieldType, sourcePath, context);
       context.messages.push(nestedMsg);
     }
     return { type: msgName, repeated: false };
   }
 
+  reportError(
+    context,
+    path,
+    sourcePath,
+    `unsupported value ${JSON.stringify(fieldType)}, expected a type name, enum or message`
+  );
   return { type: "string", repeated: false };
 }
 
+/** Key and value types of `"map<K, V>"` or `"{K: V}"` */
+function parseMapType(typeName: string): { key: string; value: string } | undefined {
+  const match =
+    typeName.match(/^map<\s*([^,\s]+)\s*,\s*(.+?)\s*>$/) ?? typeName.match(/^\{\s*([^:\s]+)\s*:\s*(.+?)\s*\}$/);
+  return match ? { key: match[1], value: match[2] } : undefined;
+}
+
+function resolveMapType(
+  { key, value }: { key: string; value: string },
+  fieldName: string,
+  parentName: string,
+  sourcePath: string[],
+  context: ConversionContext
+): { type: string; mapKey: string } {
+  const path = `${parentName}.${fieldName}`;
+  const builtInKeys: Record<string, string> = { string: "string", boolean: "bool", flag: "bool" };
+  const mapKey = context.typeAliases.get(key) ?? builtInKeys[key];
+  if (!mapKey || !MAP_KEY_TYPES.has(mapKey)) {
+    reportInvalid(context, path, sourcePath, `map key must be a string, boolean or integer type, got "${key}"`);
+  }
+
+  // Proto can't nest lists and maps directly, so they're wrapped in a message
+  const type =
+    parseMapType(value) || value.endsWith("[]")
+      ? wrapperMessage(value, fieldName, parentName, sourcePath, context)
+      : resolveSingleType(value, fieldName, parentName, sourcePath, context);
+  return { type, mapKey: mapKey && MAP_KEY_TYPES.has(mapKey) ? mapKey : "string" };
+}
+
+/**
+ * A message holding a single list or map, named after what it holds:
+ * `StringList` holds `repeated string values`, `StringInt64Map` holds
+ * `map<string, int64> entries`. Every use of the same list or map shares one.
+ */
+function wrapperMessage(
+  collectionType: string,
+  fieldName: string,
+  parentName: string,
+  sourcePath: string[],
+  context: ConversionContext
+): string {
+  const { type, repeated, mapKey } = resolveType(collectionType, fieldName, parentName, sourcePath, context);
+  const name = mapKey ? `${wrapperTypePart(mapKey)}${wrapperTypePart(type)}Map` : `${wrapperTypePart(type)}List`;
+  const declaration = mapKey ? `map<${mapKey}, ${type}>` : `repeated ${type}`;
+  const field = { name: mapKey ? "entries" : "values", type, repeated, ...(mapKey ? { mapKey } : {}) };
+  return claimWrapper(name, declaration, field, `${parentName}.${fieldName}`, sourcePath, context);
+}
+
+/** Message holding an `Optional` enum, `Status` as `StatusValue` */
+function enumWrapperMessage(enumType: string, path: string, sourcePath: string[], context: ConversionContext): string {
+  const constraints = context.validate ? { constraints: { "enum.defined_only": true } } : {};
+  const field = { name: "value", type: enumType, repeated: false, ...constraints };
+  return claimWrapper(`${wrapperTypePart(enumType)}Value`, enumType, field, path, sourcePath, context);
+}
+
+function wrapperTypePart(type: string): string {
+  return toUpperCamelCase(type.split(".").pop()!);
+}
+
+function claimWrapper(
+  name: string,
+  declaration: string,
+  field: Omit<ProtoField, "optional" | "fieldNumber">,
+  path: string,
+  sourcePath: string[],
+  context: ConversionContext
+): string {
+  const messageName = claimTypeName("message", name, `the wrapper of ${declaration}`, path, sourcePath, context);
+  if (context.generatedMessages.has(messageName)) {
+    return messageName;
+  }
+  context.generatedMessages.add(messageName);
+
+  const { numbers, entry } = assignNumbers(context.previousLock.messages[messageName], [field.name], 1);
+  context.lock.messages[messageName] = entry;
+  context.messages.push({
+    name: messageName,
+    fields: [{ ...field, optional: false, fieldNumber: numbers.get(field.name)! }],
+    reserved: toReserved(entry),
+    wrapper: true,
+  });
+  return messageName;
+}
+
+function isEnumType(type: string, context: ConversionContext): boolean {
+  return (
+    context.generatedEnums.has(type) ||
+    [...context.importedTypes.values()].some((types) => types.some((t) => t.enum && t.reference === type))
+  );
+}
+
+/**
+ * Whether a block is an enum in the map form, `{ pending = 1 active = 2 }`,
+ * rather than a message: it has numbered values and no message keys.
+ */
+function isEnumMap(value: unknown): value is Record<string, unknown> {
+  return (
+    isRecord(value) &&
+    Object.values(value).some((number) => typeof number === "number") &&
+    !Object.keys(value).some((key) => MESSAGE_KEYS.has(key))
+  );
+}
+
+/**
+ * Values of an enum in the list form, `[pending, active]`, or the map form,
+ * where each value's number is pinned and `allow_alias = @true` lets values
+ * share a number.
+ */
+function enumDefinition(
+  definition: unknown[] | Record<string, unknown>,
+  path: string,
+  sourcePath: string[],
+  context: ConversionContext
+): EnumDefinition {
+  if (!Array.isArray(definition)) {
+    const values: EnumValueEntry[] = [];
+    let allowAlias = false;
+    for (const [value, number] of Object.entries(definition)) {
+      const valuePath = [...sourcePath, value];
+      if (value === "allow_alias" && typeof number === "boolean") {
+        allowAlias = number;
+      } else if (typeof number === "number" && Number.isInteger(number)) {
+        values.push({ value, annotations: { number }, sourcePath: valuePath });
+      } else {
+        reportError(context, path, valuePath, `enum value ${value} must be given a whole number`);
+      }
+    }
+    return { values, allowAlias };
+  }
+
+  const values = definition.map((element, index) => {
+    const valuePath = [...sourcePath, String(index)];
+    const { value, annotations } = readAnnotations(element, ENUM_VALUE_ANNOTATIONS, path, valuePath, context);
+    if (typeof value !== "string" && typeof value !== "number") {
+      reportError(context, path, sourcePath, `unsupported enum value ${JSON.stringify(value)}`);
+    }
+    return { value: String(value), annotations, sourcePath: valuePath };
+  });
+  return { values, allowAlias: false };
+}
+
+function addEnum(
+  name: string,
+  { values, allowAlias }: EnumDefinition,
+  path: string,
+  sourcePath: string[],
+  context: ConversionContext
+): void {
+  if (context.generatedEnums.has(name)) {
+    return;
+  }
+  context.generatedEnums.add(name);
+
+  const valueOwners = new Map([[unspecifiedValueName(name), "the default value"]]);
+  const valueNames = values.map(({ value }) =>
+    resolveCollision(
+      enumValueName(name, value),
+      `"${value}"`,
+      valueOwners,
+      path,
+      sourcePath,
+      "enum value",
+      "_",
+      context
+    )
+  );
+  const pinned = values.flatMap(({ annotations, sourcePath: valuePath }, index) =>
+    annotations.number !== undefined
+      ? [{ name: valueNames[index], number: annotations.number, path, sourcePath: valuePath }]
+      : []
+  );
+  const previous = context.previousLock.enums[name];
+  const pinnedNumbers = checkPinnedNumbers(pinned, "enum value", previous, context, allowAlias);
+  const { numbers, entry } = assignNumbers(previous, valueNames, 1, pinnedNumbers);
+  context.lock.enums[name] = entry;
+  // protoc rejects allow_alias on an enum without aliases
+  if (allowAlias && new Set(numbers.values()).size === numbers.size) {
+    reportInvalid(context, path, sourcePath, "allow_alias is set but no values share a number");
+  }
+
+  context.enums.push({
+    name,
+    values: valueNames.map((valueName, index) => ({
+      name: valueName,
+      number: numbers.get(valueName)!,
+      sourceName: values[index].value,
+      ...commentAt(values[index].sourcePath, context),
+      ...(values[index].annotations.deprecated ? { deprecated: true } : {}),
+    })),
+    reserved: toReserved(entry),
+    ...(allowAlias ? { allowAlias: true } : {}),
+  });
+}
+
 function resolveSingleType(
   typeName: string,
   fieldName: string,
   parentName: string,
+  sourcePath: string[],
   context: ConversionContext
 ): string {
   // Check type aliases first (int64 = number, etc.)
@@ -256,37 +1803,42 @@ function resolveSingleType(
   const customDef = context.customTypes[typeName];
   if (customDef !== undefined) {
     // Enum type
-    if (Array.isArray(customDef)) {
-      const enumName = toPascalCase(typeName);
-      if (!context.generatedEnums.has(enumName)) {
-        context.generatedEnums.add(enumName);
-        context.enums.push({
-          name: enumName,
-          values: customDef.map(String),
-        });
-      }
+    if (Array.isArray(customDef) || isEnumMap(customDef)) {
+      const enumName = context.typeNames.get(`Types.${typeName}`)!;
+      const path = `Types.${typeName}`;
+      const typePath = ["Types", typeName];
+      addEnum(enumName, enumDefinition(customDef, path, typePath, context), path, typePath, context);
       return enumName;
     }
 
-    // Object type (could be union or nested message)
+    // Object type: nested message, or a union wrapped in a message where
+    // a oneof can't be used directly (repeated elements, union alternatives)
     if (isRecord(customDef)) {
-      // Union type (oneOf)
-      const oneOf = customDef.oneOf;
-      if (Array.isArray(oneOf)) {
-        return "google.protobuf.Value";
-      }
-
-      // Nested message type
-      const msgName = toPascalCase(typeName);
+      const msgName = context.typeNames.get(`Types.${typeName}`)!;
       if (!context.generatedMessages.has(msgName)) {
         context.generatedMessages.add(msgName);
-        const nestedMsg = buildMessage(msgName, customDef, context);
+        const nestedMsg = buildMessage(msgName, customDef, ["Types", typeName], context);
         context.messages.push(nestedMsg);
       }
       return msgName;
     }
   }
 
+  const imported = context.importedTypes.get(typeName);
+  if (imported) {
+    if (imported.length > 1) {
+      const names = imported.map((type) => type.reference).join(", ");
+      reportError(context, `${parentName}.${fieldName}`, sourcePath, `type "${typeName}" is ambiguous: ${names}`);
+    }
+    context.usedImports.add(imported[0].schema.protoPath);
+    return imported[0].reference;
+  }
+
+  // A recursive root, such as a tree node holding its children
+  if (typeName === context.rootMessage) {
+    return typeName;
+  }
+
   // Built-in scalar types
   switch (typeName) {
     case "string":
@@ -303,11 +1855,157 @@ function resolveSingleType(
       return "bool";
     case "any":
       return "google.protobuf.Value";
+    case "bytes":
+      return "bytes";
+    case "duration":
+      return "google.protobuf.Duration";
+    case "dateonly":
+      return "google.type.Date";
+    case "timeofday":
+      return "google.type.TimeOfDay";
+    case "decimal":
+      return "google.type.Decimal";
+    case "money":
+      return "google.type.Money";
     default:
+      reportError(context, `${parentName}.${fieldName}`, sourcePath, `unknown type "${typeName}"`);
       return "string";
   }
 }
 
+const METHOD_KEYS = new Set(["input", "output", "stream"]);
+const SCALAR_TYPE_NAMES = new Set(["string", "number", "boolean", "flag", "bytes"]);
+
+// Which sides of a call each `stream` value streams
+const STREAMING: Record<string, { clientStreaming: boolean; serverStreaming: boolean }> = {
+  client: { clientStreaming: true, serverStreaming: false },
+  server: { clientStreaming: false, serverStreaming: true },
+  bidi: { clientStreaming: true, serverStreaming: true },
+};
+
+function buildService(
+  serviceKey: string,
+  definition: unknown,
+  rootMessage: string | undefined,
+  context: ConversionContext
+): ProtoService {
+  const name = context.typeNames.get(`Services.${serviceKey}`)!;
+  const sourcePath = ["Services", serviceKey];
+  const methods: ProtoMethod[] = [];
+  if (!isRecord(definition)) {
+    reportError(context, name, sourcePath, "must be a block of methods");
+    return { name, methods, ...commentAt(sourcePath, context) };
+  }
+
+  const methodOwners = new Map<string, string>();
+  for (const [methodKey, method] of Object.entries(definition)) {
+    const methodPath = [...sourcePath, methodKey];
+    const methodName = resolveCollision(
+      toUpperCamelCase(methodKey),
+      `"${methodKey}"`,
+      methodOwners,
+      `${name}.${toUpperCamelCase(methodKey)}`,
+      methodPath,
+      "method",
+      "",
+      context
+    );
+    const path = `${name}.${methodName}`;
+    if (!isRecord(method)) {
+      reportError(context, path, methodPath, "must be a block with input and output");
+      continue;
+    }
+    for (const key of Object.keys(method)) {
+      if (!METHOD_KEYS.has(key)) {
+        const message = "unknown key, expected input, output or stream";
+        reportError(context, `${path}.${key}`, [...methodPath, key], message);
+      }
+    }
+    const { stream } = method;
+    const streaming = typeof stream === "string" && Object.hasOwn(STREAMING, stream) ? STREAMING[stream] : undefined;
+    if (stream !== undefined && !streaming) {
+      const message = `must be client, server or bidi, got ${JSON.stringify(stream)}`;
+      reportError(context, `${path}.stream`, [...methodPath, "stream"], message);
+    }
+    methods.push({
+      name: methodName,
+      inputType: methodType(method.input, "input", `${methodName}Request`, path, methodPath, rootMessage, context),
+      outputType: methodType(method.output, "output", `${methodName}Response`, path, methodPath, rootMessage, context),
+      clientStreaming: streaming?.clientStreaming ?? false,
+      serverStreaming: streaming?.serverStreaming ?? false,
+      ...commentAt(methodPath, context),
+    });
+  }
+  return { name, methods, ...commentAt(sourcePath, context) };
+}
+
+/**
+ * The message a method takes or returns: a message type by name, or an
+ * inline block, which becomes a message named `<Method>Request` or
+ * `<Method>Response`.
+ */
+function methodType(
+  value: unknown,
+  key: "input" | "output",
+  inlineName: string,
+  path: string,
+  methodPath: string[],
+  rootMessage: string | undefined,
+  context: ConversionContext
+): string {
+  const sourcePath = [...methodPath, key];
+  if (value === undefined) {
+    reportError(context, path, methodPath, `missing ${key}`);
+    return inlineName;
+  }
+  if (isRecord(value) && !isEnumMap(value)) {
+    const owner = `${path}.${key}`;
+    const messageName = claimTypeName("message", inlineName, owner, owner, sourcePath, context);
+    if (!context.generatedMessages.has(messageName)) {
+      context.generatedMessages.add(messageName);
+      context.messages.push(buildMessage(messageName, value, sourcePath, context));
+    }
+    return messageName;
+  }
+  if (typeof value !== "string") {
+    const message = `unsupported ${key} ${JSON.stringify(value)}, expected a message`;
+    reportError(context, `${path}.${key}`, sourcePath, message);
+    return inlineName;
+  }
+  if (value === rootMessage) {
+    return rootMessage;
+  }
+
+  // Enums, scalars and lists can't be sent on their own
+  const customDef = context.customTypes[value];
+  const imported = customDef === undefined ? context.importedTypes.get(value) : undefined;
+  const notMessage =
+    Array.isArray(customDef) ||
+    isEnumMap(customDef) ||
+    imported?.[0].enum === true ||
+    context.typeAliases.has(value) ||
+    SCALAR_TYPE_NAMES.has(value) ||
+    value.endsWith("[]");
+  if (notMessage) {
+    reportError(context, `${path}.${key}`, sourcePath, `${key} must be a message, got "${value}"`);
+    return inlineName;
+  }
+  return resolveSingleType(value, key, path, sourcePath, context);
+}
+
+// File defining each well-known type, in the order they're imported
+const TYPE_IMPORTS: Record<string, string> = {
+  "google.protobuf.Timestamp": "google/protobuf/timestamp.proto",
+  "google.protobuf.Duration": "google/protobuf/duration.proto",
+  "google.protobuf.Struct": "google/protobuf/struct.proto",
+  "google.protobuf.Value": "google/protobuf/struct.proto",
+  ...Object.fromEntries(Object.values(WRAPPER_TYPES).map((type) => [type, "google/protobuf/wrappers.proto"])),
+  "google.type.Date": "google/type/date.proto",
+  "google.type.TimeOfDay": "google/type/timeofday.proto",
+  "google.type.Decimal": "google/type/decimal.proto",
+  "google.type.Money": "google/type/money.proto",
+};
+
 function generateProtoFile(context: ConversionContext): string {
   const lines: string[] = [];
 
@@ -319,42 +2017,89 @@ function generateProtoFile(context: ConversionContext): string {
     lines.push("");
   }
 
-  const allFieldTypes = context.messages.flatMap((m) => m.fields.map((f) => f.type));
-  const needsTimestamp = allFieldTypes.includes("google.protobuf.Timestamp");
-  const needsStruct = allFieldTypes.some(
-    (t) => t === "google.protobuf.Struct" || t === "google.protobuf.Value"
+  const allFieldTypes = [
+    ...context.messages.flatMap((m) => m.fields.map((f) => f.type)),
+    ...context.services.flatMap((s) => s.methods.flatMap((m) => [m.inputType, m.outputType])),
+  ];
+  const typeImports = [
+    ...new Set(Object.entries(TYPE_IMPORTS).flatMap(([type, file]) => (allFieldTypes.includes(type) ? [file] : []))),
+  ];
+  for (const file of typeImports) {
+    lines.push(`import "${file}";`);
+  }
+  const needsValidate = context.messages.some(
+    (m) => m.requiredOneofs !== undefined || m.fields.some((f) => f.constraints !== undefined)
   );
-
-  if (needsTimestamp) {
-    lines.push('import "google/protobuf/timestamp.proto";');
+  if (needsValidate) {
+    lines.push('import "buf/validate/validate.proto";');
   }
-  if (needsStruct) {
-    lines.push('import "google/protobuf/struct.proto";');
+  const imports = context.imports.filter((schema) => context.usedImports.has(schema.protoPath));
+  for (const schema of imports) {
+    lines.push(`import "${schema.protoPath}";`);
   }
-  if (needsTimestamp || needsStruct) {
+  if (typeImports.length > 0 || needsValidate || imports.length > 0) {
+    lines.push("");
+  }
+
+  const optionLines = generateFileOptions(context.fileOptions);
+  if (optionLines.length > 0) {
+    lines.push(...optionLines);
     lines.push("");
   }
 
   for (const enumDef of context.enums) {
+    lines.push(...generateComment(enumDef.comment, ""));
     lines.push(`enum ${enumDef.name} {`);
-    const prefix = toEnumPrefix(enumDef.name);
-    lines.push(`  ${prefix}_UNSPECIFIED = 0;`);
-    enumDef.values.forEach((value, index) => {
-      const sanitized = toEnumValue(value);
-      lines.push(`  ${prefix}_${sanitized} = ${index + 1};`);
-    });
+    if (enumDef.allowAlias) {
+      lines.push("  option allow_alias = true;");
+    }
+    lines.push(`  ${unspecifiedValueName(enumDef.name)} = 0;`);
+    for (const value of enumDef.values) {
+      lines.push(...generateComment(value.comment, "  "));
+      lines.push(`  ${value.name} = ${value.number}${value.deprecated ? " [deprecated = true]" : ""};`);
+    }
+    lines.push(...generateReserved(enumDef.reserved));
     lines.push("}");
     lines.push("");
   }
 
   for (const message of context.messages) {
+    lines.push(...generateComment(message.comment, ""));
     lines.push(`message ${message.name} {`);
+    let openOneof: string | undefined;
     for (const field of message.fields) {
-      const repeated = field.repeated ? "repeated " : "";
-      const optional = field.optional && !field.repeated ? "optional " : "";
-      lines.push(
-        `  ${optional}${repeated}${field.type} ${field.name} = ${field.fieldNumber};`
-      );
+      if (field.oneof !== openOneof) {
+        if (openOneof) {
+          lines.push("  }");
+        }
+        if (field.oneof) {
+          lines.push(...generateComment(message.oneofComments?.[field.oneof], "  "));
+          lines.push(`  oneof ${field.oneof} {`);
+          if (message.requiredOneofs?.includes(field.oneof)) {
+            lines.push("    option (buf.validate.oneof).required = true;");
+          }
+        }
+        openOneof = field.oneof;
+      }
+      lines.push(...generateComment(field.comment, field.oneof ? "    " : "  "));
+      lines.push(...generateField(field, field.oneof ? "    " : "  "));
+    }
+    if (openOneof) {
+      lines.push("  }");
+    }
+    lines.push(...generateReserved(message.reserved));
+    lines.push("}");
+    lines.push("");
+  }
+
+  for (const service of context.services) {
+    lines.push(...generateComment(service.comment, ""));
+    lines.push(`service ${service.name} {`);
+    for (const method of service.methods) {
+      const input = `${method.clientStreaming ? "stream " : ""}${method.inputType}`;
+      const output = `${method.serverStreaming ? "stream " : ""}${method.outputType}`;
+      lines.push(...generateComment(method.comment, "  "));
+      lines.push(`  rpc ${method.name}(${input}) returns (${output});`);
     }
     lines.push("}");
     lines.push("");
@@ -363,28 +2108,60 @@ function generateProtoFile(context: ConversionContext): string {
   return lines.join("\n");
 }
 
-function toSnakeCase(str: string): string {
-  return str
-    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
-    .replace(/([a-z\d])([A-Z])/g, "$1_$2")
-    .replace(/[-\s]+/g, "_")
-    .toLowerCase();
+function generateComment(comment: string | undefined, indent: string): string[] {
+  if (comment === undefined) {
+    return [];
+  }
+  return comment.split("\n").map((line) => (line ? `${indent}// ${line}` : `${indent}//`));
 }
 
-function toPascalCase(str: string): string {
-  return str
-    .split(/[-_\s]+/)
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-    .join("");
+// Options go on the field's line, or one per line when that gets too long
+function generateField(field: ProtoField, indent: string): string[] {
+  const repeated = field.repeated ? "repeated " : "";
+  // Maps can't be optional; an empty map is the same as an unset one
+  const optional = field.optional && !field.repeated && !field.mapKey ? "optional " : "";
+  const type = field.mapKey ? `map<${field.mapKey}, ${field.type}>` : field.type;
+  const options = [
+    ...(field.deprecated ? ["deprecated = true"] : []),
+    ...(field.jsonName !== undefined ? [`json_name = ${JSON.stringify(field.jsonName)}`] : []),
+    ...Object.entries(field.constraints ?? {}).map(
+      ([rule, value]) => `(buf.validate.field).${rule} = ${typeof value === "string" ? JSON.stringify(value) : value}`
+    ),
+  ];
+  const declaration = `${indent}${optional}${repeated}${type} ${field.name} = ${field.fieldNumber}`;
+  const line = options.length > 0 ? `${declaration} [${options.join(", ")}];` : `${declaration};`;
+  if (line.length <= MAX_FIELD_LINE_LENGTH || options.length === 1) {
+    return [line];
+  }
+  return [
+    `${declaration} [`,
+    ...options.map((option, index) => `${indent}  ${option}${index < options.length - 1 ? "," : ""}`),
+    `${indent}];`,
+  ];
 }
 
-function toEnumPrefix(enumName: string): string {
-  return toSnakeCase(enumName).toUpperCase();
+function generateReserved(reserved: ProtoReserved): string[] {
+  const lines: string[] = [];
+  if (reserved.ranges.length > 0) {
+    const ranges = reserved.ranges.map(([start, end]) => (start === end ? `${start}` : `${start} to ${end}`));
+    lines.push(`  reserved ${ranges.join(", ")};`);
+  }
+  if (reserved.names.length > 0) {
+    lines.push(`  reserved ${reserved.names.map((name) => `"${name}"`).join(", ")};`);
+  }
+  return lines;
 }
 
-function toEnumValue(value: string): string {
-  return value
-    .replace(/[^a-zA-Z0-9]+/g, "_")
-    .replace(/^_+|_+$/g, "")
-    .toUpperCase();
+// Collapses sorted numbers into ranges: [4, 7, 8, 9] => [[4, 4], [7, 9]]
+function toRanges(numbers: number[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const num of numbers) {
+    const last = ranges[ranges.length - 1];
+    if (last && num === last[1] + 1) {
+      last[1] = num;
+    } else {
+      ranges.push([num, num]);
+    }
+  }
+  return ranges;
 }
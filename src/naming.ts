@@ -0,0 +1,74 @@
+// How MOTLY names become proto names. Kept in one place so proto-to-motly
+// can undo exactly what the converter does.
+
+export function toSnakeCase(str: string): string {
+  return str
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .replace(/([a-z\d])([A-Z])/g, "$1_$2")
+    .replace(/[-\s]+/g, "_")
+    .toLowerCase();
+}
+
+export function toPascalCase(str: string): string {
+  return str
+    .split(/[-_\s]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join("");
+}
+
+/** Like toPascalCase, but keeps capitals inside words: `getUser` is `GetUser` */
+export function toUpperCamelCase(str: string): string {
+  return str
+    .split(/[-_\s]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
+/** Name of the zero value every generated enum starts with */
+export function unspecifiedValueName(enumName: string): string {
+  return `${toEnumPrefix(enumName)}_UNSPECIFIED`;
+}
+
+/** Proto name of a MOTLY enum value: `active` in `Status` is `STATUS_ACTIVE` */
+export function enumValueName(enumName: string, value: string): string {
+  return `${toEnumPrefix(enumName)}_${toEnumValue(value)}`;
+}
+
+/** protoc's default JSON name: snake_case to lowerCamelCase */
+export function toJsonName(name: string): string {
+  return name.replace(/_+([a-zA-Z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+export function toEnumPrefix(enumName: string): string {
+  return toSnakeCase(enumName).toUpperCase();
+}
+
+function toEnumValue(value: string): string {
+  return value
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+}
+
+/** Message name for a schema file: `order-item.motly` is `OrderItem` */
+export function deriveMessageName(filePath: string): string {
+  const baseName = filePath.split("/").pop() || "Schema";
+  const withoutExt = baseName.replace(/\.(motly|mtly)$/, "");
+  return withoutExt
+    .replace(/(^|[-_])(\w)/g, (_, __, c) => c.toUpperCase())
+    .replace(/[^a-zA-Z0-9]/g, "");
+}
+
+/** Path of the .proto generated from a schema file, in the same directory */
+export function deriveProtoPath(filePath: string): string {
+  return `${filePath.replace(/\.(motly|mtly)$/, "")}.proto`;
+}
+
+/** Package for a schema file from its directory: `billing/v1/invoice.motly` is `billing.v1` */
+export function derivePackageName(filePath: string): string | undefined {
+  const directories = filePath.split("/").slice(0, -1).filter((name) => name !== "" && name !== ".");
+  if (directories.length === 0) {
+    return undefined;
+  }
+  return directories.map((name) => toSnakeCase(name).replace(/[^a-z0-9_]/g, "_").replace(/^(\d)/, "_$1")).join(".");
+}
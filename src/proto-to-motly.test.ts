@@ -0,0 +1,352 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { protoToSchema } from "./compat.js";
+import { convertMotlySchema, type ProtoSchema } from "./motly-to-proto.js";
+import { protoToMotly } from "./proto-to-motly.js";
+
+// Order-independent view of a schema, for comparing descriptors
+function normalize(schema: ProtoSchema) {
+  return {
+    packageName: schema.packageName,
+    messages: schema.messages
+      .map((m) => ({ ...m, fields: [...m.fields].sort((a, b) => a.fieldNumber - b.fieldNumber) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    enums: schema.enums
+      .map((e) => ({ ...e, values: [...e.values].sort((a, b) => a.number - b.number) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+function roundTrip(proto: string, messageName?: string) {
+  const result = protoToMotly(proto, messageName);
+  const back = convertMotlySchema(result.motly, result.messageName, { lock: result.lock });
+  return { result, back: protoToSchema(back.proto) };
+}
+
+describe("protoToMotly", () => {
+  it("writes Types, sections, arrays and numeric aliases", () => {
+    const { motly, messageName, warnings } = protoToMotly(`
+      syntax = "proto3";
+      package shop.v1;
+      enum Status {
+        STATUS_UNSPECIFIED = 0;
+        STATUS_OPEN = 1;
+        STATUS_IN_REVIEW = 2;
+      }
+      message Order {
+        int64 order_id = 1;
+        Status status = 2;
+        repeated Item items = 3;
+        optional string coupon_code = 4;
+      }
+      message Item {
+        string sku = 1;
+        float weight = 2;
+      }
+    `);
+
+    assert.strictEqual(messageName, "Order");
+    assert.deepStrictEqual(warnings, []);
+    assert.strictEqual(
+      motly,
+      [
+        '#! package = "shop.v1"',
+        "",
+        "Types: {",
+        "  int64 = number",
+        "  float = number",
+        "",
+        "  Status = [open, in_review]",
+        "",
+        "  Item: {",
+        "    Required: {",
+        "      sku = string",
+        "      weight = float",
+        "    }",
+        "  }",
+        "}",
+        "",
+        "Required: {",
+        "  orderId = int64",
+        "  status = Status",
+        '  items = "Item[]"',
+        "}",
+        "",
+        "Optional: {",
+        "  couponCode = string",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("round-trips a generated schema to an equivalent one", () => {
+    const original = convertMotlySchema(
+      `
+        #! package = "app.v1"
+        Types: {
+          uint32 = number
+          Status = [pending, active]
+          StringOrNumber: { oneOf = [string, number] }
+        }
+        Required: {
+          id = string
+          status = Status
+          priority = [low, high]
+          createdAt = date
+          value: { oneOf = [string, uint32, Status] }
+          location: {
+            Required: {
+              lat = number
+              lng = number
+            }
+          }
+        }
+        Optional: {
+          labels = "StringOrNumber[]"
+          settings = tag
+          extra = any
+        }
+      `.trim(),
+      "Event"
+    );
+    const { result, back } = roundTrip(original.proto);
+
+    assert.deepStrictEqual(result.warnings, []);
+    assert.deepStrictEqual(normalize(back), normalize(protoToSchema(original.proto)));
+  });
+
+  it("keeps field and enum value numbers", () => {
+    const proto = `
+      syntax = "proto3";
+      enum Kind {
+        KIND_UNSPECIFIED = 0;
+        KIND_A = 4;
+        KIND_B = 2;
+      }
+      message Doc {
+        string title = 7;
+        Kind kind = 3;
+      }
+    `;
+    const { back } = roundTrip(proto);
+
+    assert.deepStrictEqual(normalize(back), normalize(protoToSchema(proto)));
+  });
+
+  it("keeps reserved numbers and names in the lock", () => {
+    const proto = `
+      syntax = "proto3";
+      enum Kind {
+        KIND_UNSPECIFIED = 0;
+        KIND_A = 1;
+        reserved 2;
+        reserved "KIND_B";
+      }
+      message Doc {
+        string title = 1;
+        Kind kind = 5;
+        reserved 2, 3 to 4, 100 to max;
+        reserved "subtitle";
+      }
+    `;
+    const { result, back } = roundTrip(proto);
+
+    assert.deepStrictEqual(result.lock.messages.Doc.removed, { "@2": 2, "@3": 3, "@4": 4, subtitle: 0 });
+    assert.deepStrictEqual(result.lock.enums.Kind.removed, { "@2": 2, KIND_B: 0 });
+    assert.deepStrictEqual(result.warnings, ["Doc: reserved 100 to 536870911 is too long to carry over"]);
+    const { proto: generated } = convertMotlySchema(result.motly, result.messageName, { lock: result.lock });
+    assert(generated.includes('  reserved 2 to 4;\n  reserved "subtitle";\n}'));
+    assert(generated.includes('  reserved 2;\n  reserved "KIND_B";\n}'));
+    assert.deepStrictEqual(normalize(back).messages[0].fields, normalize(protoToSchema(proto)).messages[0].fields);
+  });
+
+  it("writes deprecated fields and JSON names as annotations", () => {
+    const proto = `
+      syntax = "proto3";
+      message Doc {
+        string title = 1 [deprecated = true];
+        string user_name = 2 [json_name = "user"];
+      }
+    `;
+    const { result, back } = roundTrip(proto);
+
+    assert.match(result.motly, /title = string \{ deprecated \}\n {2}userName = string \{ json_name="user" \}/);
+    assert.deepStrictEqual(normalize(back), normalize(protoToSchema(proto)));
+  });
+
+  it("recognizes unions of the same type in one message", () => {
+    const proto = `
+      syntax = "proto3";
+      message User {
+        oneof home {
+          string home_string = 1;
+          double home_number = 2;
+        }
+        oneof work {
+          string work_string = 3;
+          double work_number = 4;
+        }
+      }
+    `;
+    const { result, back } = roundTrip(proto);
+
+    assert.match(result.motly, /home: \{ oneOf = \[string, number\] \}\n {2}work: \{ oneOf = \[string, number\] \}/);
+    assert.deepStrictEqual(result.warnings, []);
+    assert.deepStrictEqual(normalize(back), normalize(protoToSchema(proto)));
+  });
+
+  it("recognizes unions of nested types named as declared", () => {
+    const { result, back } = roundTrip(`
+      syntax = "proto3";
+      message User {
+        message Addr { string city = 1; }
+        oneof contact {
+          string contact_string = 1;
+          Addr contact_addr = 2;
+        }
+      }
+    `);
+
+    assert.match(result.motly, /contact: \{ oneOf = \[string, user_addr\] \}/);
+    assert.deepStrictEqual(result.warnings, ["User.contact_addr: becomes contact_user_addr"]);
+    const user = back.messages.find((m) => m.name === "User")!;
+    assert.deepStrictEqual(
+      user.fields.map((f) => [f.name, f.fieldNumber]),
+      [
+        ["contact_string", 1],
+        ["contact_user_addr", 2],
+      ]
+    );
+  });
+
+  it("round-trips a root message that refers to itself", () => {
+    const proto = `
+      syntax = "proto3";
+      message Node {
+        string id = 1;
+        repeated Node children = 2;
+      }
+      message Tree { Node root = 1; }
+    `;
+    const result = protoToMotly(proto);
+    const back = convertMotlySchema(result.motly, result.messageName, { lock: result.lock, allTypes: true });
+
+    assert.match(result.motly, /root = Node\n[\s\S]*children = "Node\[\]"/);
+    assert.deepStrictEqual(result.warnings, []);
+    assert.deepStrictEqual(normalize(protoToSchema(back.proto)), normalize(protoToSchema(proto)));
+  });
+
+  it("writes enums with aliases in the map form", () => {
+    const proto = `
+      syntax = "proto3";
+      enum Mode {
+        option allow_alias = true;
+        MODE_UNSPECIFIED = 0;
+        MODE_STARTED = 1;
+        MODE_RUNNING = 1;
+      }
+      message Job { Mode mode = 1; }
+    `;
+    const { result, back } = roundTrip(proto, "Job");
+
+    assert.match(result.motly, /Mode = \{ allow_alias = @true started = 1 running = 1 \}/);
+    assert.deepStrictEqual(normalize(back), normalize(protoToSchema(proto)));
+  });
+
+  it("writes services with their streaming", () => {
+    const proto = `
+      syntax = "proto3";
+      import "google/protobuf/timestamp.proto";
+      message User { string id = 1; }
+      message GetUserRequest { string id = 1; }
+      service UserService {
+        rpc GetUser(GetUserRequest) returns (User);
+        rpc WatchUsers(google.protobuf.Timestamp) returns (stream User);
+      }
+    `;
+    const result = protoToMotly(proto, "User");
+    const services = [
+      "  UserService: {",
+      "    GetUser: { input = get_user_request output = User }",
+      "    WatchUsers: { input = date output = User stream = server }",
+      "  }",
+    ];
+    assert(result.motly.includes(["Services: {", ...services, "}"].join("\n")));
+
+    const back = convertMotlySchema(result.motly, result.messageName, { lock: result.lock });
+    const methods = [
+      "  rpc GetUser(GetUserRequest) returns (User);",
+      "  rpc WatchUsers(google.protobuf.Timestamp) returns (stream User);",
+    ];
+    assert(back.proto.includes(["service UserService {", ...methods, "}"].join("\n")));
+  });
+
+  it("writes wrapper fields as optional scalars", () => {
+    const proto = `
+      syntax = "proto3";
+      import "google/protobuf/wrappers.proto";
+      message Item {
+        string id = 1;
+        google.protobuf.UInt32Value size = 2;
+        optional string name = 3;
+      }
+    `;
+    const { result, back } = roundTrip(proto);
+
+    assert.match(result.motly, /^#! wrap_optional_scalars = @true\n/);
+    assert.match(result.motly, /Optional: \{\n {2}size = uint32\n {2}name = string\n\}/);
+    assert.deepStrictEqual(result.warnings, ["Item.name: becomes a wrapper, as other fields use them"]);
+    assert.strictEqual(back.messages[0].fields[1].type, "google.protobuf.UInt32Value");
+  });
+
+  it("flattens nested types and warns about what MOTLY can't express", () => {
+    const { motly, warnings } = protoToMotly(
+      `
+        syntax = "proto3";
+        message Other { string x = 1; }
+        message Doc {
+          message Part { bytes data = 1; }
+          enum Level { LOW = 0; HIGH = 1; }
+          repeated Part parts = 1;
+          Level level = 2;
+          map<string, string> labels = 3;
+          oneof contact {
+            string email = 4;
+            string phone = 5;
+          }
+        }
+      `,
+      "Doc"
+    );
+
+    assert.match(motly, /doc_level = \[high\]/);
+    assert.match(motly, /parts = "doc_part\[\]"/);
+    assert.match(motly, /data = bytes/);
+    assert.match(motly, /labels = "map<string, string>"/);
+    assert.deepStrictEqual(warnings, [
+      "DocLevel.LOW: the zero value becomes DOC_LEVEL_UNSPECIFIED",
+      "DocLevel.HIGH: becomes DOC_LEVEL_HIGH",
+      "Doc.email: oneof contact isn't a MOTLY union, so its fields become optional",
+      "Doc.phone: oneof contact isn't a MOTLY union, so its fields become optional",
+    ]);
+  });
+
+  it("writes type names so they convert back to the same proto names", () => {
+    const { motly, warnings } = protoToMotly(
+      `
+        syntax = "proto3";
+        message Order { OrderItem item = 1; HTTPServer server = 2; }
+        message OrderItem { string sku = 1; }
+        message HTTPServer { string host = 1; }
+      `
+    );
+
+    assert.match(motly, /item = order_item\n {2}server = http_server\n/);
+    assert.deepStrictEqual(warnings, ["HTTPServer: becomes HttpServer"]);
+  });
+
+  it("reports a missing root message", () => {
+    assert.throws(() => protoToMotly(`syntax = "proto3"; message A {}`, "B"), /Message B not found/);
+  });
+});
@@ -0,0 +1,490 @@
+import protobuf from "protobufjs";
+import type { FieldNumberLock, LockEntry } from "./motly-to-proto.js";
+import { enumValueName, toEnumPrefix, toPascalCase, toSnakeCase, unspecifiedValueName } from "./naming.js";
+import { loadProto } from "./runtime.js";
+
+export interface ProtoToMotlyResult {
+  motly: string;
+  /** Name to convert the MOTLY schema back with; its top-level message */
+  messageName: string;
+  /** Field and enum value numbers of the .proto, to convert back with */
+  lock: FieldNumberLock;
+  /** Parts of the .proto that MOTLY can't express exactly */
+  warnings: string[];
+}
+
+// MOTLY names of the well-known types the converter maps to
+const WELL_KNOWN_TYPES: Record<string, string> = {
+  ".google.protobuf.Timestamp": "date",
+  ".google.protobuf.Duration": "duration",
+  ".google.protobuf.Struct": "tag",
+  ".google.protobuf.Value": "any",
+  ".google.type.Date": "dateonly",
+  ".google.type.TimeOfDay": "timeofday",
+  ".google.type.Decimal": "decimal",
+  ".google.type.Money": "money",
+};
+
+// MOTLY type of each well-known wrapper, written as an `Optional` field
+const WRAPPER_SCALARS: Record<string, string> = {
+  ".google.protobuf.DoubleValue": "number",
+  ".google.protobuf.FloatValue": "float",
+  ".google.protobuf.Int64Value": "int64",
+  ".google.protobuf.UInt64Value": "uint64",
+  ".google.protobuf.Int32Value": "int32",
+  ".google.protobuf.UInt32Value": "uint32",
+  ".google.protobuf.BoolValue": "boolean",
+  ".google.protobuf.StringValue": "string",
+  ".google.protobuf.BytesValue": "bytes",
+};
+
+// Order the numeric aliases are declared in
+const NUMERIC_ALIASES = [
+  "int32",
+  "int64",
+  "uint32",
+  "uint64",
+  "sint32",
+  "sint64",
+  "fixed32",
+  "fixed64",
+  "sfixed32",
+  "sfixed64",
+  "float",
+];
+
+// The `stream` of a method, by whether its request and response stream
+const STREAM_KINDS: Record<string, string> = {
+  "false,false": "",
+  "true,false": " stream = client",
+  "false,true": " stream = server",
+  "true,true": " stream = bidi",
+};
+
+const BARE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Longest reserved range carried over into the lock, one entry per number
+const MAX_RESERVED_RANGE = 1000;
+
+interface ReverseContext {
+  /** MOTLY type name of each message and enum, nested ones flattened */
+  typeNames: Map<protobuf.ReflectionObject, string>;
+  /** Proto name each message and enum gets when converted back */
+  protoNames: Map<protobuf.ReflectionObject, string>;
+  aliases: Set<string>;
+  lock: FieldNumberLock;
+  warnings: string[];
+  /** Some field is a wrapper, so the schema wraps every optional scalar */
+  wrapsScalars: boolean;
+  /** Fields that are optional scalars without a wrapper */
+  optionalScalars: string[];
+}
+
+/**
+ * Converts a proto3 file into a MOTLY schema, undoing the naming conventions
+ * the converter applies. `messageName` (by default the first message) becomes
+ * the schema's top-level message and every other message and enum a `Types`
+ * entry. Converting the result back with `messageName` and the returned lock
+ * reproduces the same messages, fields and numbers.
+ */
+export function protoToMotly(protoContent: string, messageName?: string): ProtoToMotlyResult {
+  const root = loadProto(protoContent, { keepCase: true });
+  const { messages, enums, services, packageName } = collectTypes(root);
+
+  const rootMessage = messageName ? messages.find((m) => m.name === messageName) : messages[0];
+  if (!rootMessage) {
+    throw new Error(messageName ? `Message ${messageName} not found` : "No messages found");
+  }
+
+  const warnings: string[] = [];
+  const typeNames = new Map(
+    [...messages, ...enums].map((t) => {
+      const name = flattenedName(t);
+      return [t, t === rootMessage ? name : typeKey(name, warnings)];
+    })
+  );
+  const context: ReverseContext = {
+    typeNames,
+    protoNames: new Map([...typeNames].map(([t, name]) => [t, t === rootMessage ? name : toPascalCase(name)])),
+    aliases: new Set(),
+    lock: { version: 1, messages: {}, enums: {} },
+    warnings,
+    wrapsScalars: false,
+    optionalScalars: [],
+  };
+
+  // Blocks of Types entries, separated by blank lines: the enums, then each message
+  const typeBlocks: string[][] = [
+    enums.map((e) => `  ${formatKey(context.typeNames.get(e)!)} = ${enumDefinition(e, context)}`),
+    ...messages.filter((m) => m !== rootMessage).map((m) => messageDefinition(m, "  ", context)),
+  ];
+  const rootSections = messageBody(rootMessage, "", context);
+  // The numeric aliases in use are known once every field has been seen
+  typeBlocks.unshift(NUMERIC_ALIASES.filter((a) => context.aliases.has(a)).map((a) => `  ${a} = number`));
+
+  const directives = [
+    ...(packageName ? [`#! package = "${packageName}"`] : []),
+    ...(context.wrapsScalars ? ["#! wrap_optional_scalars = @true"] : []),
+  ];
+  if (context.wrapsScalars) {
+    const wrapped = context.optionalScalars.map((path) => `${path}: becomes a wrapper, as other fields use them`);
+    context.warnings.push(...wrapped);
+  }
+
+  const lines: string[] = [];
+  if (directives.length > 0) {
+    lines.push(...directives, "");
+  }
+  const typeLines = joinBlocks(typeBlocks);
+  if (typeLines.length > 0) {
+    lines.push("Types: {", ...typeLines, "}", "");
+  }
+  lines.push(...joinBlocks(rootSections));
+  if (services.length > 0) {
+    lines.push("", "Services: {", ...joinBlocks(services.map((s) => serviceDefinition(s, context))), "}");
+  }
+
+  return {
+    motly: `${lines.join("\n")}\n`,
+    messageName: context.typeNames.get(rootMessage)!,
+    lock: context.lock,
+    // Union detection looks at field types more than once
+    warnings: [...new Set(context.warnings)],
+  };
+}
+
+// Messages, enums and services of the file, nested ones included, in
+// declaration order. The well-known types loaded for imports are not part of
+// the file.
+function collectTypes(root: protobuf.Root) {
+  const messages: protobuf.Type[] = [];
+  const enums: protobuf.Enum[] = [];
+  const services: protobuf.Service[] = [];
+  let packageName: string | undefined;
+
+  const visit = (namespace: protobuf.NamespaceBase) => {
+    for (const nested of namespace.nestedArray) {
+      if (nested.fullName === ".google.protobuf" || nested.fullName === ".google.type") {
+        continue;
+      }
+      if (nested instanceof protobuf.Service) {
+        services.push(nested);
+      } else if (nested instanceof protobuf.Type || nested instanceof protobuf.Enum) {
+        if (!(namespace instanceof protobuf.Type) && namespace !== root) {
+          packageName = namespace.fullName.slice(1);
+        }
+        if (nested instanceof protobuf.Type) {
+          messages.push(nested);
+        } else {
+          enums.push(nested);
+        }
+      }
+      if (nested instanceof protobuf.Namespace || nested instanceof protobuf.Type) {
+        visit(nested);
+      }
+    }
+  };
+  visit(root);
+  return { messages, enums, services, packageName };
+}
+
+// `Outer.Inner` becomes `OuterInner`
+function flattenedName(type: protobuf.ReflectionObject): string {
+  const names: string[] = [];
+  for (let current: protobuf.ReflectionObject | null = type; current; current = current.parent) {
+    names.unshift(current.name);
+    if (!(current.parent instanceof protobuf.Type)) {
+      break;
+    }
+  }
+  return names.join("");
+}
+
+// A Types key the converter turns back into the proto name. It lowers the
+// capitals inside words, so `OrderItem` is written `order_item`.
+function typeKey(protoName: string, warnings: string[]): string {
+  if (toPascalCase(protoName) === protoName) {
+    return protoName;
+  }
+  const key = toSnakeCase(protoName);
+  if (toPascalCase(key) !== protoName) {
+    warnings.push(`${protoName}: becomes ${toPascalCase(key)}`);
+  }
+  return key;
+}
+
+function enumDefinition(enumType: protobuf.Enum, context: ReverseContext): string {
+  const enumName = context.protoNames.get(enumType)!;
+  const entry: LockEntry = { numbers: {}, removed: {} };
+  const values: string[] = [];
+  // Aliases need the map form, which numbers every value
+  const allowAlias = enumType.options?.allow_alias === true;
+
+  for (const [name, number] of Object.entries(enumType.values).sort(([, a], [, b]) => a - b)) {
+    // The converter adds the zero value itself
+    if (number === 0) {
+      if (name !== unspecifiedValueName(enumName)) {
+        context.warnings.push(`${enumName}.${name}: the zero value becomes ${unspecifiedValueName(enumName)}`);
+      }
+      continue;
+    }
+    const prefix = `${toEnumPrefix(enumName)}_`;
+    const value = (name.startsWith(prefix) ? name.slice(prefix.length) : name).toLowerCase();
+    const protoName = enumValueName(enumName, value);
+    if (protoName !== name) {
+      context.warnings.push(`${enumName}.${name}: becomes ${protoName}`);
+    }
+    entry.numbers[protoName] = number;
+    values.push(allowAlias ? `${formatKey(value)} = ${number}` : formatValue(value));
+  }
+
+  reserveNumbers(enumName, enumType.reserved, entry, context);
+  context.lock.enums[enumName] = entry;
+  return allowAlias ? `{ allow_alias = @true ${values.join(" ")} }` : `[${values.join(", ")}]`;
+}
+
+function messageDefinition(message: protobuf.Type, indent: string, context: ReverseContext): string[] {
+  const name = formatKey(context.typeNames.get(message)!);
+  return [`${indent}${name}: {`, ...messageBody(message, `${indent}  `, context).flat(), `${indent}}`];
+}
+
+// The Required/Optional sections, or `oneOf` for a message that is a union
+function messageBody(message: protobuf.Type, indent: string, context: ReverseContext): string[][] {
+  const messageName = context.protoNames.get(message)!;
+  const entry: LockEntry = { numbers: {}, removed: {} };
+  context.lock.messages[messageName] = entry;
+  reserveNumbers(messageName, message.reserved, entry, context);
+
+  const oneofs = message.oneofsArray.filter((o) => !o.fieldsArray.every(isProto3Optional));
+  const onlyUnion =
+    oneofs.length === 1 &&
+    oneofs[0].name === "value" &&
+    oneofs[0].fieldsArray.length === message.fieldsArray.length &&
+    isUnion(oneofs[0], undefined, context);
+  if (onlyUnion) {
+    for (const field of message.fieldsArray) {
+      entry.numbers[unionFieldName(field, undefined, messageName, context)] = field.id;
+    }
+    return [[`${indent}oneOf = [${unionTypes(oneofs[0], context).join(", ")}]`]];
+  }
+  const unions = new Map(
+    oneofs.flatMap((o) => (isUnion(o, o.name, context) ? [[o, unionTypes(o, context)]] : []))
+  );
+  if (message.fieldsArray.length === 0) {
+    context.warnings.push(`${messageName}: MOTLY can't express an empty message`);
+  }
+
+  const required: string[] = [];
+  const optional: string[] = [];
+  const writtenOneofs = new Set<protobuf.OneOf>();
+  for (const field of message.fieldsArray) {
+    const oneof = field.partOf && oneofs.includes(field.partOf) ? field.partOf : undefined;
+    if (oneof && unions.has(oneof)) {
+      entry.numbers[unionFieldName(field, oneof.name, messageName, context)] = field.id;
+      if (!writtenOneofs.has(oneof)) {
+        writtenOneofs.add(oneof);
+        const fieldName = motlyFieldName(oneof.name, `${messageName}.${oneof.name}`, context);
+        required.push(`${indent}  ${formatKey(fieldName)}: { oneOf = [${unions.get(oneof)!.join(", ")}] }`);
+      }
+      continue;
+    }
+    if (oneof) {
+      context.warnings.push(
+        `${messageName}.${field.name}: oneof ${oneof.name} isn't a MOTLY union, so its fields become optional`
+      );
+    }
+
+    const fieldName = motlyFieldName(field.name, `${messageName}.${field.name}`, context);
+    entry.numbers[toSnakeCase(fieldName)] = field.id;
+    const wrapped = wrappedScalar(field, context);
+    if (isProto3Optional(field) && !field.resolvedType) {
+      context.optionalScalars.push(`${messageName}.${field.name}`);
+    }
+    const line = `${indent}  ${formatKey(fieldName)} = ${wrapped ?? fieldType(field, context)}${annotations(field)}`;
+    (isProto3Optional(field) || oneof || wrapped ? optional : required).push(line);
+  }
+
+  return [
+    required.length > 0 ? [`${indent}Required: {`, ...required, `${indent}}`] : [],
+    optional.length > 0 ? [`${indent}Optional: {`, ...optional, `${indent}}`] : [],
+  ];
+}
+
+function serviceDefinition(service: protobuf.Service, context: ReverseContext): string[] {
+  const methods = service.methodsArray.map((method) => {
+    const input = methodType(method, method.resolvedRequestType!, context);
+    const output = methodType(method, method.resolvedResponseType!, context);
+    const stream = STREAM_KINDS[`${Boolean(method.requestStream)},${Boolean(method.responseStream)}`];
+    return `    ${formatKey(method.name)}: { input = ${input} output = ${output}${stream} }`;
+  });
+  return [`  ${formatKey(service.name)}: {`, ...methods, "  }"];
+}
+
+function methodType(method: protobuf.Method, type: protobuf.Type, context: ReverseContext): string {
+  const name = WELL_KNOWN_TYPES[type.fullName] ?? context.typeNames.get(type);
+  if (!name) {
+    const typeName = type.fullName.slice(1);
+    context.warnings.push(`${method.fullName.slice(1)}: ${typeName} has no MOTLY equivalent, using tag`);
+    return "tag";
+  }
+  return formatValue(name);
+}
+
+function joinBlocks(blocks: string[][]): string[] {
+  return blocks.filter((block) => block.length > 0).flatMap((block, index) => (index > 0 ? ["", ...block] : block));
+}
+
+function isProto3Optional(field: protobuf.Field): boolean {
+  return field.options?.proto3_optional === true;
+}
+
+// ` { deprecated json_name="user" }`, or nothing when the field has neither
+function annotations(field: protobuf.Field): string {
+  const parts = [
+    ...(field.options?.deprecated === true ? ["deprecated"] : []),
+    ...(typeof field.options?.json_name === "string" ? [`json_name=${JSON.stringify(field.options.json_name)}`] : []),
+  ];
+  return parts.length > 0 ? ` { ${parts.join(" ")} }` : "";
+}
+
+// A oneof the converter would generate for a union: one singular field per
+// alternative, named `<field>_<type>`, or `<type>_value` in a message that is
+// a union (`unionField` undefined). A nested type may be named as declared,
+// `contact_addr` for `User.Addr`.
+function isUnion(oneof: protobuf.OneOf, unionField: string | undefined, context: ReverseContext): boolean {
+  return oneof.fieldsArray.every(
+    (field) =>
+      !field.repeated &&
+      !(field instanceof protobuf.MapField) &&
+      (field.name === alternativeName(singleType(field, context), unionField) ||
+        (field.resolvedType !== null && field.name === alternativeName(field.resolvedType.name, unionField)))
+  );
+}
+
+function alternativeName(type: string, unionField: string | undefined): string {
+  return toSnakeCase(unionField === undefined ? `${type}_value` : `${unionField}_${type}`);
+}
+
+// The name the converter gives a union alternative's field
+function unionFieldName(
+  field: protobuf.Field,
+  unionField: string | undefined,
+  messageName: string,
+  context: ReverseContext
+): string {
+  const name = alternativeName(singleType(field, context), unionField);
+  if (name !== field.name) {
+    context.warnings.push(`${messageName}.${field.name}: becomes ${name}`);
+  }
+  return name;
+}
+
+function unionTypes(oneof: protobuf.OneOf, context: ReverseContext): string[] {
+  return oneof.fieldsArray.map((field) => singleType(field, context));
+}
+
+// Uses the MOTLY name when converting it back gives the same proto name
+function motlyFieldName(protoName: string, path: string, context: ReverseContext): string {
+  const camelCase = protoName.replace(/_([a-z\d])/g, (_, c: string) => c.toUpperCase());
+  if (toSnakeCase(camelCase) === protoName) {
+    return camelCase;
+  }
+  if (toSnakeCase(protoName) !== protoName) {
+    context.warnings.push(`${path}: becomes ${toSnakeCase(protoName)}`);
+  }
+  return protoName;
+}
+
+function fieldType(field: protobuf.Field, context: ReverseContext): string {
+  const type = singleType(field, context);
+  if (field instanceof protobuf.MapField) {
+    return `"map<${mapKeyType(field.keyType, context)}, ${type}>"`;
+  }
+  return field.repeated ? `"${type}[]"` : type;
+}
+
+// The scalar a singular wrapper field holds
+function wrappedScalar(field: protobuf.Field, context: ReverseContext): string | undefined {
+  if (!field.resolvedType || field.repeated || field instanceof protobuf.MapField) {
+    return undefined;
+  }
+  const scalar = WRAPPER_SCALARS[field.resolvedType.fullName];
+  if (scalar) {
+    context.wrapsScalars = true;
+    if (NUMERIC_ALIASES.includes(scalar)) {
+      context.aliases.add(scalar);
+    }
+  }
+  return scalar;
+}
+
+function mapKeyType(keyType: string, context: ReverseContext): string {
+  switch (keyType) {
+    case "string":
+      return "string";
+    case "bool":
+      return "boolean";
+    default:
+      context.aliases.add(keyType);
+      return keyType;
+  }
+}
+
+function singleType(field: protobuf.Field, context: ReverseContext): string {
+  const resolved = field.resolvedType;
+  if (resolved) {
+    const wellKnown = WELL_KNOWN_TYPES[resolved.fullName];
+    if (wellKnown) {
+      return wellKnown;
+    }
+    const name = context.typeNames.get(resolved);
+    if (name) {
+      return name;
+    }
+    context.warnings.push(`${field.fullName.slice(1)}: ${resolved.fullName.slice(1)} has no MOTLY equivalent, using string`);
+    return "string";
+  }
+
+  switch (field.type) {
+    case "double":
+      return "number";
+    case "bool":
+      return "boolean";
+    case "string":
+      return "string";
+    case "bytes":
+      return "bytes";
+    default:
+      context.aliases.add(field.type);
+      return field.type;
+  }
+}
+
+// Reserved names and numbers become removed entries of the lock, so the
+// converter reserves them again
+function reserveNumbers(
+  name: string,
+  reserved: Array<number[] | string> | undefined,
+  entry: LockEntry,
+  context: ReverseContext
+): void {
+  for (const item of reserved ?? []) {
+    if (typeof item === "string") {
+      entry.removed[item] = 0;
+    } else if (item[1] - item[0] >= MAX_RESERVED_RANGE) {
+      context.warnings.push(`${name}: reserved ${item[0]} to ${item[1]} is too long to carry over`);
+    } else {
+      for (let number = item[0]; number <= item[1]; number++) {
+        entry.removed[`@${number}`] = number;
+      }
+    }
+  }
+}
+
+function formatKey(name: string): string {
+  return BARE_NAME.test(name) ? name : `\`${name}\``;
+}
+
+function formatValue(value: string): string {
+  return BARE_NAME.test(value) ? value : JSON.stringify(value);
+}
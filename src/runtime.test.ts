@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import protobuf from "protobufjs";
+import { motlySchemaToRoot } from "./runtime.js";
+
+describe("motlySchemaToRoot", () => {
+  it("resolves well-known types", () => {
+    const root = motlySchemaToRoot(
+      `
+        Required: {
+          createdAt = date
+          payload = tag
+        }
+      `,
+      "Event",
+      { packageName: "app.v1" }
+    );
+    const Event = root.lookupType("app.v1.Event");
+
+    assert.strictEqual(Event.fields.createdAt.resolvedType?.fullName, ".google.protobuf.Timestamp");
+    assert.strictEqual(Event.fields.payload.resolvedType?.fullName, ".google.protobuf.Struct");
+  });
+
+  it("resolves the google.type messages it imports", () => {
+    const root = motlySchemaToRoot(`Required: { price = money day = dateonly }`, "Item");
+    const Item = root.lookupType("Item");
+
+    assert.strictEqual(Item.fields.price.resolvedType?.fullName, ".google.type.Money");
+    const date = Item.fields.day.resolvedType as protobuf.Type;
+    assert.deepStrictEqual(Object.keys(date.fields), ["year", "month", "day"]);
+  });
+
+  it("loads schemas without imports", () => {
+    const root = motlySchemaToRoot(`Required: { id = string }`, "Item");
+    const Item = root.lookupType("Item");
+    const decoded = Item.decode(Item.encode(Item.create({ id: "a1" })).finish());
+
+    assert.deepStrictEqual(Item.toObject(decoded), { id: "a1" });
+  });
+
+  it("reports schema errors like the converter", () => {
+    assert.throws(() => motlySchemaToRoot(`Required: { id = nope }`, "Item"), { name: "SchemaError" });
+  });
+});
@@ -0,0 +1,57 @@
+import protobuf from "protobufjs";
+import { motlySchemaToProto, type ConversionOptions } from "./motly-to-proto.js";
+
+/**
+ * Converts a schema and loads it into a protobufjs `Root`, ready to encode
+ * and decode messages at runtime. Imported well-known types (Timestamp,
+ * Duration, Struct, Value, the wrappers) are registered from protobufjs's
+ * bundled definitions, and the google.type messages from copies kept here.
+ * Field names are camelCase, as protobufjs converts them by default.
+ */
+export function motlySchemaToRoot(
+  schemaContent: string,
+  messageName: string,
+  options: ConversionOptions = {}
+): protobuf.Root {
+  return loadProto(motlySchemaToProto(schemaContent, messageName, options));
+}
+
+// Imports that only define options, which are kept as plain values
+const OPTION_IMPORTS = new Set(["buf/validate/validate.proto"]);
+
+// A file of the google.type package holding one message, fields numbered in
+// order. Names are camelCase, like protobufjs's bundled definitions.
+function googleTypeFile(name: string, fields: Record<string, string>): protobuf.INamespace {
+  const fieldsJson = Object.fromEntries(
+    Object.entries(fields).map(([field, type], index) => [field, { type, id: index + 1 }])
+  );
+  return { nested: { google: { nested: { type: { nested: { [name]: { fields: fieldsJson } } } } } } };
+}
+
+// The google.type files the converter imports, which protobufjs doesn't bundle
+const GOOGLE_TYPE_FILES: Record<string, protobuf.INamespace> = {
+  "google/type/date.proto": googleTypeFile("Date", { year: "int32", month: "int32", day: "int32" }),
+  "google/type/timeofday.proto": googleTypeFile("TimeOfDay", {
+    hours: "int32",
+    minutes: "int32",
+    seconds: "int32",
+    nanos: "int32",
+  }),
+  "google/type/decimal.proto": googleTypeFile("Decimal", { value: "string" }),
+  "google/type/money.proto": googleTypeFile("Money", { currencyCode: "string", units: "int64", nanos: "int32" }),
+};
+
+/** Loads generated .proto text into a `Root`, registering imported well-known types */
+export function loadProto(protoContent: string, parseOptions: protobuf.IParseOptions = {}): protobuf.Root {
+  const root = new protobuf.Root();
+  const { imports } = protobuf.parse(protoContent, root, parseOptions);
+  for (const file of (imports ?? []).filter((file) => !OPTION_IMPORTS.has(file))) {
+    const definition = GOOGLE_TYPE_FILES[file] ?? protobuf.common.get(file);
+    if (!definition) {
+      throw new Error(`Unsupported import: ${file}`);
+    }
+    root.addJSON(definition.nested ?? {});
+  }
+  root.resolveAll();
+  return root;
+}
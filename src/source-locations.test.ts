@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { findLocation, leadingComments, locateKeys, pathKey } from "./source-locations.js";
+
+describe("locateKeys", () => {
+  it("records the position of nested keys", () => {
+    const source = [
+      "# comment with { braces }",
+      "Types: {",
+      "  Status = [a, b]",
+      "  Address: {",
+      '    Required: { street = "x # y" `zip-code` = string }',
+      "  }",
+      "}",
+    ].join("\n");
+    const locations = locateKeys(source);
+
+    assert.deepStrictEqual(locations.get(pathKey(["Types"])), { line: 2, column: 1 });
+    assert.deepStrictEqual(locations.get(pathKey(["Types", "Status"])), { line: 3, column: 3 });
+    assert.deepStrictEqual(locations.get(pathKey(["Types", "Address", "Required", "street"])), {
+      line: 5,
+      column: 17,
+    });
+    assert.deepStrictEqual(locations.get(pathKey(["Types", "Address", "Required", "zip-code"])), {
+      line: 5,
+      column: 34,
+    });
+  });
+
+  it("records properties on values and dotted paths", () => {
+    const source = ["id = int64 { deprecated }", "a.b = 1"].join("\n");
+    const locations = locateKeys(source);
+
+    assert.deepStrictEqual(locations.get(pathKey(["id", "deprecated"])), { line: 1, column: 14 });
+    assert.deepStrictEqual(locations.get(pathKey(["a", "b"])), { line: 2, column: 1 });
+  });
+
+  it("falls back to the closest located ancestor", () => {
+    const locations = locateKeys("Required: {\n  id = string\n}");
+
+    assert.deepStrictEqual(findLocation(locations, ["Required", "id", "missing"]), {
+      line: 2,
+      column: 3,
+    });
+    assert.deepStrictEqual(findLocation(locations, ["Nowhere"]), { line: 1, column: 1 });
+  });
+});
+
+describe("leadingComments", () => {
+  it("keeps comments directly above keys and array elements", () => {
+    const source = [
+      "# Opens the document",
+      "",
+      "# Detached",
+      "",
+      "Types: {",
+      "  # First",
+      "  # Second",
+      "  Status = [",
+      "    # Element",
+      "    a, b",
+      "  ]",
+      "  x = 1 # trailing",
+      "  y = 2",
+      "}",
+    ].join("\n");
+    const comments = leadingComments(source);
+
+    assert.deepStrictEqual(Object.fromEntries(comments), {
+      [pathKey([])]: ["Opens the document"],
+      [pathKey(["Types", "Status"])]: ["First", "Second"],
+      [pathKey(["Types", "Status", "0"])]: ["Element"],
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/** 1-based position in a source file */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * Maps every property path in a MOTLY document to where its key is written.
+ * `parseTag` only returns values, so diagnostics about a field need this to
+ * point back at the source. Paths are keyed with `pathKey`.
+ *
+ * The scanner follows the statement structure of the MOTLY grammar loosely;
+ * on text it doesn't understand it skips a character and keeps going, since
+ * real syntax errors are reported by the parser itself.
+ */
+export function locateKeys(source: string): Map<string, SourceLocation> {
+  return scan(source).locations;
+}
+
+/**
+ * Maps property paths to the `#` comment lines written directly above their
+ * key (or above an array element, keyed by its index), without the `#`.
+ * The empty path holds the comment that opens the document when a blank line
+ * separates it from the first key.
+ */
+export function leadingComments(source: string): Map<string, string[]> {
+  const state = scan(source);
+  settleComment(state);
+  return state.comments;
+}
+
+function scan(source: string): ScanState {
+  const state: ScanState = {
+    source,
+    pos: 0,
+    line: 1,
+    lineStart: 0,
+    locations: new Map(),
+    comments: new Map(),
+    seenKey: false,
+  };
+  // A stray "}" ends a block early; keep scanning the rest at the top level
+  while (state.pos < source.length) {
+    scanStatements(state, []);
+  }
+  return state;
+}
+
+export function pathKey(path: string[]): string {
+  return JSON.stringify(path);
+}
+
+/** Location of the path, or of its closest ancestor that was found */
+export function findLocation(
+  locations: Map<string, SourceLocation>,
+  path: string[]
+): SourceLocation {
+  for (let length = path.length; length > 0; length--) {
+    const location = locations.get(pathKey(path.slice(0, length)));
+    if (location) {
+      return location;
+    }
+  }
+  return { line: 1, column: 1 };
+}
+
+const BARE_CHAR = /[0-9A-Za-z_\u00C0-\u024F\u1E00-\u1EFF]/;
+
+interface ScanState {
+  source: string;
+  pos: number;
+  line: number;
+  lineStart: number;
+  locations: Map<string, SourceLocation>;
+  comments: Map<string, string[]>;
+  /** Comment lines on consecutive lines, waiting for the key they're above */
+  pendingComment?: { lines: string[]; lastLine: number };
+  seenKey: boolean;
+}
+
+// Reads statements until the end of the enclosing properties block
+function scanStatements(state: ScanState, parent: string[]): void {
+  while (state.pos < state.source.length) {
+    skipTrivia(state);
+    const ch = peek(state);
+    if (ch === "}") {
+      settleComment(state);
+      advance(state);
+      return;
+    }
+    if (ch === "-" || ch === "") {
+      advance(state);
+      continue;
+    }
+
+    const location = currentLocation(state);
+    const name = readPropName(state);
+    if (!name) {
+      advance(state);
+      continue;
+    }
+    const path = [...parent, ...name];
+    if (!state.locations.has(pathKey(path))) {
+      state.locations.set(pathKey(path), location);
+    }
+    attachComment(state, path, location);
+
+    skipTrivia(state);
+    if (peek(state) === "=") {
+      advance(state);
+      skipTrivia(state);
+      if (state.source.startsWith("...", state.pos)) {
+        advanceTo(state, state.pos + 3);
+      } else if (peek(state) !== "{") {
+        skipValue(state, path);
+      }
+      skipTrivia(state);
+    } else if (peek(state) === ":") {
+      advance(state);
+      skipTrivia(state);
+    }
+    if (peek(state) === "{") {
+      advance(state);
+      scanStatements(state, path);
+    }
+  }
+}
+
+function readPropName(state: ScanState): string[] | undefined {
+  const parts: string[] = [];
+  for (;;) {
+    const part = readIdentifier(state);
+    if (part === undefined) {
+      return parts.length > 0 ? parts : undefined;
+    }
+    parts.push(part);
+    if (peek(state) !== ".") {
+      return parts;
+    }
+    advance(state);
+  }
+}
+
+function readIdentifier(state: ScanState): string | undefined {
+  if (peek(state) === "`") {
+    return readQuoted(state, "`");
+  }
+  const start = state.pos;
+  while (BARE_CHAR.test(peek(state))) {
+    advance(state);
+  }
+  return state.pos > start ? state.source.slice(start, state.pos) : undefined;
+}
+
+function readQuoted(state: ScanState, quote: string): string {
+  advance(state);
+  let value = "";
+  while (state.pos < state.source.length && peek(state) !== quote && peek(state) !== "\n") {
+    if (peek(state) === "\\") {
+      advance(state);
+    }
+    value += peek(state);
+    advance(state);
+  }
+  advance(state);
+  return value;
+}
+
+function skipValue(state: ScanState, path: string[]): void {
+  const ch = peek(state);
+  if (ch === "[") {
+    skipArray(state, path);
+  } else if (state.source.startsWith('"""', state.pos)) {
+    const end = state.source.indexOf('"""', state.pos + 3);
+    advanceTo(state, end === -1 ? state.source.length : end + 3);
+  } else if (ch === '"' || ch === "'") {
+    readQuoted(state, ch);
+  } else {
+    while (state.pos < state.source.length && /[^\s{}[\],#]/.test(peek(state))) {
+      advance(state);
+    }
+  }
+}
+
+// Array elements may carry properties blocks; their keys are recorded
+// under the element index
+function skipArray(state: ScanState, path: string[]): void {
+  advance(state);
+  let index = 0;
+  while (state.pos < state.source.length) {
+    skipTrivia(state, false);
+    const ch = peek(state);
+    if (ch === "]") {
+      advance(state);
+      return;
+    }
+    if (ch === ",") {
+      advance(state);
+      index++;
+      continue;
+    }
+    if (ch === "{") {
+      advance(state);
+      scanStatements(state, [...path, String(index)]);
+      continue;
+    }
+    attachComment(state, [...path, String(index)], currentLocation(state));
+    const before = state.pos;
+    skipValue(state, [...path, String(index)]);
+    if (state.pos === before) {
+      advance(state);
+    }
+  }
+}
+
+// Whitespace and comments; commas too, except inside arrays where they
+// separate elements
+function skipTrivia(state: ScanState, skipCommas = true): void {
+  while (state.pos < state.source.length) {
+    const ch = peek(state);
+    if (ch === "#") {
+      const ownLine = state.source.slice(state.lineStart, state.pos).trim() === "";
+      const start = state.pos;
+      while (state.pos < state.source.length && peek(state) !== "\n") {
+        advance(state);
+      }
+      if (ownLine) {
+        addCommentLine(state, state.source.slice(start + 1, state.pos).replace(/^ /, "").trimEnd());
+      } else {
+        // A comment after a value belongs to that value
+        settleComment(state);
+      }
+    } else if (/\s/.test(ch) || (skipCommas && ch === ",")) {
+      advance(state);
+    } else {
+      return;
+    }
+  }
+}
+
+function addCommentLine(state: ScanState, text: string): void {
+  if (state.pendingComment && state.pendingComment.lastLine === state.line - 1) {
+    state.pendingComment.lines.push(text);
+    state.pendingComment.lastLine = state.line;
+    return;
+  }
+  settleComment(state);
+  state.pendingComment = { lines: [text], lastLine: state.line };
+}
+
+// Gives the pending comment to the key right below it, if any
+function attachComment(state: ScanState, path: string[], location: SourceLocation): void {
+  const pending = state.pendingComment;
+  if (pending && pending.lastLine === location.line - 1 && !state.comments.has(pathKey(path))) {
+    state.comments.set(pathKey(path), pending.lines);
+    state.pendingComment = undefined;
+  }
+  settleComment(state);
+  state.seenKey = true;
+}
+
+// Drops a comment that isn't directly above a key, unless it's the one
+// opening the document
+function settleComment(state: ScanState): void {
+  if (state.pendingComment && !state.seenKey && !state.comments.has(pathKey([]))) {
+    state.comments.set(pathKey([]), state.pendingComment.lines);
+  }
+  state.pendingComment = undefined;
+}
+
+function peek(state: ScanState): string {
+  return state.source.charAt(state.pos);
+}
+
+function advance(state: ScanState): void {
+  if (state.source.charAt(state.pos) === "\n") {
+    state.line++;
+    state.lineStart = state.pos + 1;
+  }
+  state.pos++;
+}
+
+function advanceTo(state: ScanState, end: number): void {
+  while (state.pos < end) {
+    advance(state);
+  }
+}
+
+function currentLocation(state: ScanState): SourceLocation {
+  return { line: state.line, column: state.pos - state.lineStart + 1 };
+}